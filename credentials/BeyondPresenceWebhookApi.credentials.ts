@@ -0,0 +1,27 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class BeyondPresenceWebhookApi implements ICredentialType {
+	name = 'beyondPresenceWebhookApi';
+	displayName = 'Beyond Presence Webhook API';
+	documentationUrl = 'https://docs.bey.dev/webhooks/n8n';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Signing Secret',
+			name: 'signingSecret',
+			type: 'string',
+			typeOptions: { password: true },
+			required: true,
+			default: '',
+			description:
+				'Shared secret used to verify the HMAC-SHA256 signature sent in the x-bey-signature header',
+		},
+		{
+			displayName: 'Timestamp Tolerance (Seconds)',
+			name: 'timestampTolerance',
+			type: 'number',
+			default: 300,
+			description:
+				'Maximum age of the x-bey-timestamp header before a request is rejected as a replay. Set to 0 to disable the check.',
+		},
+	];
+}
@@ -6,235 +6,293 @@ import {
 	INodeTypeDescription, 
 	NodeConnectionType,
 	IDataObject,
-	IWebhookFunctions,
-	IWebhookResponseData,
-	IHookFunctions,
-	JsonObject
+	sleep,
+	ILoadOptionsFunctions,
+	INodeListSearchResult,
+	INodeParameters,
+	INodeProperties,
+	INodePropertyOptions,
+	JsonObject,
 } from 'n8n-workflow';
-import { BaseWebhookData, CallEndedEvent, MessageEvent, WebhookMessage } from './BeyondPresenceTypes';
+import {
+	beyondPresenceApiRequest,
+	beyondPresenceApiRequestAllItems,
+	beyondPresenceApiTest,
+	beyondPresenceGetCallMessages,
+	beyondPresenceHelpers,
+} from './BeyondPresenceHelpers';
+import FormData from 'form-data';
+import {
+	AgentKeyStore,
+	AgentTool,
+	ApiCall,
+	DeduplicationStore,
+	EphemeralAgentStore,
+	FilterRule,
+	SessionStore,
+} from './BeyondPresenceTypes';
+import { TranscriptFormat, transcriptFileTypes, transcriptHelpers } from './BeyondPresenceTranscript';
+import { QrCodeFormat, callLinkHelpers, qrCodeFileTypes } from './BeyondPresenceCallLink';
+import { SampleEventOptions, sandboxHelpers } from './BeyondPresenceSandbox';
+import { eventProcessingProperties, filterRuleProperties, withDisplayOptions } from './BeyondPresenceProperties';
 
-const beyondPresenceHelpers = {
-	/**
-	 * Extracts the agent ID from different possible locations in the webhook data
-	 * @param {BaseWebhookData} data - The webhook data to extract the agent ID from
-	 * @returns {string} The agent ID or an empty string if not found
-	 */
-	getAgentId(data: BaseWebhookData): string {
-		return data.call_data?.agentId || data.agentId || '';
-	},
+const AVATAR_ID_REGEX = '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}';
+
+const UNKNOWN_EVENT_OUTPUT_INDEX = 2;
+const ERROR_OUTPUT_INDEX = 3;
+
+const configuredOutputs = (parameters: INodeParameters) => {
+	const isHandleEvent = parameters.resource === 'webhook' && parameters.operation === 'handleEvent';
+	const duplicatesOutput = isHandleEvent &&
+		parameters.deduplicate === true &&
+		parameters.duplicateHandling === 'output';
+	const outputs: Array<{ type: string; displayName?: string }> =
+		isHandleEvent && parameters.routeByEventType === true
+			? [
+				{ type: 'main', displayName: 'Call Ended' },
+				{ type: 'main', displayName: 'Message' },
+				{ type: 'main', displayName: 'Unknown Event' },
+				{ type: 'main', displayName: 'Error' },
+				{ type: 'main', displayName: 'Tool Call' },
+			]
+			: [duplicatesOutput ? { type: 'main', displayName: 'Events' } : { type: 'main' }];
 	
-	/**
-	 * Parses and normalizes duration minutes from the webhook data
-	 * @param {string | number | undefined} duration - The duration value to parse
-	 * @returns {number} The normalized duration in minutes as a number
-	 */
-	parseDurationMinutes(duration: string | number | undefined): number {
-		if (typeof duration === 'string') {
-			return parseInt(duration);
-		}
-		return duration || 0;
-	},
+	if (duplicatesOutput) {
+		outputs.push({ type: 'main', displayName: 'Duplicates' });
+	}
 	
-	/**
-	 * Parses and normalizes message count from the webhook data
-	 * @param {string | number | undefined} count - The message count value to parse
-	 * @param {WebhookMessage[] | undefined} messages - The messages array to use as fallback for count
-	 * @returns {number} The normalized message count as a number
-	 */
-	parseMessageCount(count: string | number | undefined, messages: WebhookMessage[] | undefined): number {
-		if (typeof count === 'string') {
-			return parseInt(count);
-		}
-		return count || (messages?.length || 0);
-	},
+	return outputs;
+};
 
-	/**
-	 * Parses and validates webhook data from raw input
-	 * @param {string | object} webhookDataRaw - The raw webhook data to parse
-	 * @returns {BaseWebhookData} The parsed webhook data
-	 * @throws {ApplicationError} If the webhook data is invalid
-	 */
-	parseWebhookData(webhookDataRaw: string | object): BaseWebhookData {
-		let webhookData: BaseWebhookData;
-		
-		try {
-			if (typeof webhookDataRaw === 'string') {
-				try {
-					webhookData = JSON.parse(webhookDataRaw) as BaseWebhookData;
-				} catch (parseError) {
-					throw new ApplicationError(`Invalid webhook JSON: ${(parseError as Error).message}`);
-				}
-			} else {
-				webhookData = webhookDataRaw as BaseWebhookData;
-			}
-			
-			if (!webhookData || typeof webhookData !== 'object') {
-				throw new ApplicationError('Invalid webhook data: Must be a valid object');
-			}
-			
-			return webhookData;
-		} catch (error) {
-			throw new ApplicationError(`Invalid webhook data: ${(error as Error).message}`);
-		}
-	},
+/**
+ * Converts the tools parameter into the tools of the agent API
+ * @param {IDataObject} tools - The value of the tools parameter
+ * @returns {AgentTool[] | undefined} The tools, or undefined when none are defined
+ */
+const getAgentTools = (tools: IDataObject): AgentTool[] | undefined => {
+	const toolList = (tools.tool || []) as IDataObject[];
+	return toolList.length > 0 ? beyondPresenceHelpers.parseAgentTools(toolList) : undefined;
+};
 
-	/**
-	 * Processes a 'call_ended' event and converts it to a structured format
-	 * @param {CallEndedEvent} callEndedEvent - The call ended event to process
-	 * @returns {IDataObject} Structured data with call details, user info, messages, and summary
-	 */
-	processCallEndedEvent(callEndedEvent: CallEndedEvent): IDataObject {
-		const durationMinutes = this.parseDurationMinutes(callEndedEvent.evaluation?.duration_minutes);
-		const messageCount = this.parseMessageCount(callEndedEvent.evaluation?.messages_count, callEndedEvent.messages);
-		
-		return {
-			call_id: callEndedEvent.call_id || '',
-			agent_id: this.getAgentId(callEndedEvent),
-			
-			call_details: {
-				duration_minutes: durationMinutes,
-				message_count: messageCount,
-				topic: callEndedEvent.evaluation?.topic || 'Unknown',
-				user_sentiment: callEndedEvent.evaluation?.user_sentiment || 'Unknown',
-			},
-			
-			user: {
-				name: callEndedEvent.user_name || 
-					(callEndedEvent.call_data && callEndedEvent.call_data.userName) || 
-					'Unknown',
-			},
-			
-			call_summary: {
-				duration_minutes: durationMinutes,
-				message_count: messageCount,
-				first_message: callEndedEvent.messages && callEndedEvent.messages.length > 0 
-					? callEndedEvent.messages[0].message 
-					: '',
-				last_message: callEndedEvent.messages && callEndedEvent.messages.length > 0 
-					? callEndedEvent.messages[callEndedEvent.messages.length - 1].message 
-					: '',
-				user_sentiment: callEndedEvent.evaluation?.user_sentiment || 'Unknown',
-			},
-			
-			messages: (callEndedEvent.messages || []).map(msg => ({
-				sender: msg.sender || '',
-				message: msg.message || '',
-				timestamp: msg.sent_at || '',
-			})),
-			
-			event_type: 'call_ended',
-		};
+/**
+ * Builds the request body of Agent Create from the node parameters of an item
+ * @param {IExecuteFunctions} context - The execution context
+ * @param {number} itemIndex - The index of the item
+ * @returns {IDataObject} The request body
+ */
+const buildAgentCreateBody = (context: IExecuteFunctions, itemIndex: number): IDataObject => ({
+	avatar_id: context.getNodeParameter('avatarId', itemIndex, '', { extractValue: true }),
+	system_prompt: context.getNodeParameter('systemPrompt', itemIndex),
+	name: context.getNodeParameter('name', itemIndex),
+	language: context.getNodeParameter('language', itemIndex),
+	greeting: context.getNodeParameter('greeting', itemIndex),
+	max_session_length_minutes: context.getNodeParameter('maxSessionLengthMinutes', itemIndex),
+	capabilities: context.getNodeParameter('capabilities', itemIndex),
+	tools: getAgentTools(context.getNodeParameter('tools', itemIndex, {}) as IDataObject),
+} as IDataObject);
+
+/**
+ * Records an agent created by Agent Create as ephemeral when the item asks for it
+ * @param {IExecuteFunctions} context - The execution context
+ * @param {number} itemIndex - The index of the item
+ * @param {unknown} agent - The agent returned by the API
+ */
+const trackCreatedAgent = (context: IExecuteFunctions, itemIndex: number, agent: unknown): void => {
+	const agentId = (agent as IDataObject | undefined)?.id;
+	
+	if (!agentId || !(context.getNodeParameter('ephemeral', itemIndex, false) as boolean)) {
+		return;
+	}
+	
+	// Global static data, so agents created by one node can be cleaned up by another
+	beyondPresenceHelpers.trackEphemeralAgent(
+		context.getWorkflowStaticData('global') as EphemeralAgentStore,
+		String(agentId),
+		(context.getNodeParameter('ttlMinutes', itemIndex, 60) as number) * 60000,
+		context.getNodeParameter('deleteAfterCall', itemIndex, false) as boolean,
+		Date.now(),
+	);
+};
+
+/**
+ * Applies the call link options of an item to a formatted agent
+ * @param {IExecuteFunctions} context - The execution context
+ * @param {number} itemIndex - The index of the item
+ * @param {IDataObject} agent - The formatted agent
+ * @returns {Promise<INodeExecutionData>} The output item, without its paired item
+ */
+const withCallLinkOptions = async (
+	context: IExecuteFunctions,
+	itemIndex: number,
+	agent: IDataObject,
+): Promise<INodeExecutionData> => {
+	const options = context.getNodeParameter('callLinkOptions', itemIndex, {}) as IDataObject;
+	
+	if (typeof agent.call_link !== 'string') {
+		return { json: agent };
+	}
+	
+	const queryParameters = ((options.queryParameters as IDataObject | undefined)?.parameters || []) as Array<{
+		name: string;
+		value: string;
+	}>;
+	const callLink = callLinkHelpers.buildCallLink(
+		agent.call_link,
+		Object.fromEntries(queryParameters.map((parameter) => [parameter.name, parameter.value])),
+	);
+	const json: IDataObject = { ...agent, call_link: callLink };
+	
+	if (options.embedHtml === true) {
+		json.embed_html = callLinkHelpers.buildEmbedHtml(callLink, {
+			width: String(options.embedWidth ?? '100%'),
+			height: String(options.embedHeight ?? '600'),
+			permissions: callLinkHelpers.getEmbedPermissions(
+				(options.embedPermissions as string[] | undefined) ?? ['fullscreen', 'microphone'],
+				agent.capabilities,
+			),
+		});
+	}
+	
+	if (!options.qrCodeFormat) {
+		return { json };
+	}
+	
+	const format = options.qrCodeFormat as QrCodeFormat;
+	const { extension, mimeType } = qrCodeFileTypes[format];
+	const qrCode = await callLinkHelpers.renderQrCode(callLink, format, (options.qrCodeSize as number) || 300);
+	
+	return {
+		json,
+		binary: {
+			[(options.qrCodeBinaryPropertyName as string) || 'qrCode']: await context.helpers.prepareBinaryData(
+				qrCode,
+				`${agent.id as string}.${extension}`,
+				mimeType,
+			),
+		},
+	};
+};
+
+const languageOptions: INodePropertyOptions[] = [
+	{
+		name: 'Arabic',
+		value: 'ar',
+	},
+	{
+		name: 'Chinese',
+		value: 'zh',
 	},
+	{
+		name: 'English',
+		value: 'en',
+	},
+	{
+		name: 'French',
+		value: 'fr',
+	},
+	{
+		name: 'German',
+		value: 'de',
+	},
+	{
+		name: 'Italian',
+		value: 'it',
+	},
+	{
+		name: 'Japanese',
+		value: 'ja',
+	},
+	{
+		name: 'Korean',
+		value: 'ko',
+	},
+	{
+		name: 'Portuguese',
+		value: 'pt',
+	},
+	{
+		name: 'Russian',
+		value: 'ru',
+	},
+	{
+		name: 'Spanish',
+		value: 'es',
+	},
+];
 
-	/**
-	 * Processes a 'message' event and converts it to a structured format
-	 * @param {MessageEvent} messageEvent - The message event to process
-	 * @returns {IDataObject} Structured data with message details and call context
-	 */
-	processMessageEvent(messageEvent: MessageEvent): IDataObject {
-		return {
-			call_id: messageEvent.call_id || '',
-			agent_id: this.getAgentId(messageEvent),
-			
-			user: {
-				name: messageEvent.call_data?.userName || 'Unknown',
-			},
-			
-			message: {
-				sender: messageEvent.message?.sender || '',
-				content: messageEvent.message?.message || '',
-				timestamp: messageEvent.message?.sent_at || '',
-			},
-			
-			event_type: 'message',
-		};
+const capabilityOptions: INodePropertyOptions[] = [
+	{
+		name: 'Webcam Vision',
+		value: 'webcam_vision',
+		description: 'Enable webcam vision capability for the agent',
 	},
+];
 
-	/**
-	 * Formats API response data for consistent output
-	 * @param {unknown} responseData - The raw response data to format
-	 * @returns {JsonObject} Formatted response with additional helpful properties like call_link
-	 */
-	formatResponse(responseData: unknown): JsonObject {
-		let formattedResponse: unknown = responseData;
-		
-		if (typeof formattedResponse === 'string') {
-			try {
-				formattedResponse = JSON.parse(formattedResponse);
-			} catch (e) {
-				return { data: formattedResponse as string };
-			}
-		}
-		
-		if (!formattedResponse || typeof formattedResponse !== 'object') {
-			return { data: formattedResponse as string };
-		}
-		
-		if (formattedResponse && typeof formattedResponse === 'object' && 'id' in formattedResponse) {
-			const typedResponse = formattedResponse as {id: string};
-			return {
-				...(formattedResponse as JsonObject),
-				call_link: `https://bey.chat/${typedResponse.id}`,
-			};
-		}
-		
-		return formattedResponse as JsonObject;
+const toolsProperty: INodeProperties = {
+	displayName: 'Tools',
+	name: 'tools',
+	type: 'fixedCollection',
+	placeholder: 'Add Tool',
+	default: {},
+	typeOptions: {
+		multipleValues: true,
 	},
+	options: [
+		{
+			displayName: 'Tool',
+			name: 'tool',
+			values: [
+				{
+					displayName: 'Name',
+					name: 'name',
+					type: 'string',
+					default: '',
+					placeholder: 'lookup_order',
+					description: 'Name the agent uses to call the tool',
+				},
+				{
+					displayName: 'Description',
+					name: 'description',
+					type: 'string',
+					default: '',
+					placeholder: 'Look up the status of an order by its number',
+					description: 'What the tool does and when the agent should call it',
+				},
+				{
+					displayName: 'Parameters',
+					name: 'parameters',
+					type: 'json',
+					default: '{\n  "type": "object",\n  "properties": {}\n}',
+					description: 'JSON schema of the arguments the agent passes to the tool',
+				},
+			],
+		},
+	],
+	description: 'Custom tools the agent can call during a call. Tool calls are sent as tool_call webhook events.',
 };
 
 export class BeyondPresence implements INodeType {
-	webhookMethods = {
-		default: {
-			async checkExists(this: IHookFunctions): Promise<boolean> {
-				return true;
-			},
-			async create(this: IHookFunctions): Promise<boolean> {
-				return true;
-			},
-			async delete(this: IHookFunctions): Promise<boolean> {
-				return true;
+	methods = {
+		credentialTest: {
+			beyondPresenceApiTest,
+		},
+		listSearch: {
+			async searchAvatars(this: ILoadOptionsFunctions, filter?: string): Promise<INodeListSearchResult> {
+				const avatars = await beyondPresenceApiRequestAllItems.call(this, '/avatar');
+				const search = (filter || '').toLowerCase();
+				
+				return {
+					results: avatars
+						.filter((avatar) => !search || String(avatar.name || avatar.id).toLowerCase().includes(search))
+						.map((avatar) => ({
+							name: String(avatar.name || avatar.id),
+							value: avatar.id as string,
+						})),
+				};
 			},
 		},
 	};
-
-	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
-		const request = this.getRequestObject();
-		const webhookPayload = request.body;
-		const returnData: INodeExecutionData[] = [];
-		
-		try {
-			if (!webhookPayload) {
-				throw new ApplicationError('Missing webhook data');
-			}
-			
-			const webhookData = beyondPresenceHelpers.parseWebhookData(webhookPayload);
-			
-			if (webhookData.event_type === 'call_ended') {
-				const processedData = beyondPresenceHelpers.processCallEndedEvent(webhookData as CallEndedEvent);
-				returnData.push({ json: processedData });
-			} else if (webhookData.event_type === 'message') {
-				const processedData = beyondPresenceHelpers.processMessageEvent(webhookData as MessageEvent);
-				returnData.push({ json: processedData });
-			} else {
-				returnData.push({
-					json: {
-						event_type: webhookData.event_type || 'unknown',
-						call_id: webhookData.call_id || '',
-						agent_id: beyondPresenceHelpers.getAgentId(webhookData),
-					},
-				});
-			}
-		} catch (error) {
-			returnData.push({
-				json: {
-					error: (error as Error).message,
-				},
-			});
-		}
-		
-		return { workflowData: [returnData] };
-	}
-
+	
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnItems: INodeExecutionData[] = [];
@@ -242,6 +300,151 @@ export class BeyondPresence implements INodeType {
 		
 		if (resource !== 'webhook') {
 			const operation = this.getNodeParameter('operation', 0) as string;
+			const credentials = await this.getCredentials('beyondPresenceApi');
+			const callLinkBaseUrl = beyondPresenceHelpers.getCallLinkBaseUrl(credentials);
+			
+			if (
+				resource === 'agent' &&
+				operation === 'create' &&
+				(this.getNodeParameter('bulkMode', 0, false) as boolean)
+			) {
+				const simplify = this.getNodeParameter('simplify', 0, false) as boolean;
+				const concurrency = Math.max(this.getNodeParameter('concurrency', 0, 5) as number, 1);
+				const requestDelay = this.getNodeParameter('batchDelay', 0, 0) as number;
+				
+				const bulkItems: INodeExecutionData[] = new Array(items.length);
+				let nextItemIndex = 0;
+				
+				const createAgent = async (i: number): Promise<INodeExecutionData> => {
+					let agent: unknown;
+					
+					try {
+						agent = await beyondPresenceApiRequest.call(
+							this,
+							'POST',
+							'/agent',
+							buildAgentCreateBody(this, i),
+							undefined,
+							credentials,
+						);
+						trackCreatedAgent(this, i, agent);
+						
+						const createdItem = await withCallLinkOptions(this, i, {
+							...beyondPresenceHelpers.formatResponse(agent, callLinkBaseUrl),
+							success: true,
+						});
+						
+						return {
+							...createdItem,
+							json: simplify ? beyondPresenceHelpers.simplifyAgent(createdItem.json) : createdItem.json,
+							pairedItem: { item: i },
+						};
+					} catch (error) {
+						// The agent may exist even though a later step failed, so its ID is kept
+						const agentId = (agent as IDataObject | undefined)?.id;
+						
+						return {
+							json: {
+								...(agentId ? { id: agentId } : {}),
+								success: false,
+								error: (error as Error).message,
+							},
+							pairedItem: { item: i },
+						};
+					}
+				};
+				
+				// Each worker picks the next item as soon as its request finishes, keeping N requests in flight
+				const worker = async () => {
+					let isFirstRequest = true;
+					
+					while (nextItemIndex < items.length) {
+						const i = nextItemIndex++;
+						
+						if (!isFirstRequest && requestDelay > 0) {
+							await sleep(requestDelay);
+						}
+						isFirstRequest = false;
+						
+						bulkItems[i] = await createAgent(i);
+					}
+				};
+				
+				await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+				returnItems.push(...bulkItems);
+				
+				return this.prepareOutputData(returnItems);
+			}
+			
+			if (resource === 'agent' && operation === 'deleteExpired') {
+				const ephemeralAgentStore = this.getWorkflowStaticData('global') as EphemeralAgentStore;
+				const ephemeralAgents = ephemeralAgentStore.ephemeralAgents || {};
+				const now = Date.now();
+				const deleted: IDataObject[] = [];
+				const failed: IDataObject[] = [];
+				
+				for (const [agentId, ephemeralAgent] of Object.entries(ephemeralAgents)) {
+					let reason: string | undefined;
+					
+					if (now >= ephemeralAgent.expires_at) {
+						reason = 'expired';
+					} else if (ephemeralAgent.delete_after_call) {
+						// A failed lookup is reported like a failed delete so the agents handled so far are still listed
+						try {
+							const calls = (await beyondPresenceApiRequestAllItems.call(this, '/calls', {
+								agent_id: agentId,
+							})) as ApiCall[];
+							
+							if (calls.some((call) => call.ended_at)) {
+								reason = 'call_ended';
+							}
+						} catch (error) {
+							failed.push({ id: agentId, error: (error as Error).message });
+							continue;
+						}
+					}
+					
+					if (!reason) {
+						continue;
+					}
+					
+					try {
+						await beyondPresenceApiRequest.call(
+							this,
+							'DELETE',
+							`/agent/${encodeURIComponent(agentId)}`,
+							undefined,
+							undefined,
+							credentials,
+						);
+					} catch (error) {
+						// An agent that is already gone no longer needs to be tracked
+						if (beyondPresenceHelpers.getErrorStatusCode(error as JsonObject) !== 404) {
+							failed.push({ id: agentId, error: (error as Error).message });
+							continue;
+						}
+					}
+					
+					delete ephemeralAgents[agentId];
+					deleted.push({ id: agentId, reason });
+				}
+				
+				return [
+					[
+						{
+							json: {
+								deleted_count: deleted.length,
+								deleted,
+								failed,
+								remaining_count: Object.keys(ephemeralAgents).length,
+							},
+							pairedItem: { item: 0 },
+						},
+					],
+				];
+			}
+			
+			let agentsForUpsert: IDataObject[] | undefined;
 			
 			for (let i = 0; i < items.length; i++) {
 				try {
@@ -249,59 +452,378 @@ export class BeyondPresence implements INodeType {
 					
 					if (resource === 'agent') {
 						if (operation === 'create') {
-							const requestBody = {
-								avatar_id: this.getNodeParameter('avatarId', i),
-								system_prompt: this.getNodeParameter('systemPrompt', i),
-								name: this.getNodeParameter('name', i),
-								language: this.getNodeParameter('language', i),
-								greeting: this.getNodeParameter('greeting', i),
-								max_session_length_minutes: this.getNodeParameter('maxSessionLengthMinutes', i),
-								capabilities: this.getNodeParameter('capabilities', i),
-							};
-							
-							const credentials = await this.getCredentials('beyondPresenceApi');
-							
-							responseData = await this.helpers.httpRequest({
-								method: 'POST',
-								url: 'https://api.bey.dev/v1/agent',
-								headers: {
-									'Accept': 'application/json',
-									'Content-Type': 'application/json',
-									'x-api-key': credentials.apiKey as string,
-								},
-								body: requestBody,
-								json: true,
+							const requestBody = buildAgentCreateBody(this, i);
+							
+							responseData = await beyondPresenceApiRequest.call(this, 'POST', '/agent', requestBody);
+							trackCreatedAgent(this, i, responseData);
+							
+							const formattedResponse = beyondPresenceHelpers.formatResponse(responseData, callLinkBaseUrl);
+							const createdItem = await withCallLinkOptions(this, i, formattedResponse);
+							
+							returnItems.push({
+								...createdItem,
+								json: (this.getNodeParameter('simplify', i, false) as boolean)
+									? beyondPresenceHelpers.simplifyAgent(createdItem.json)
+									: createdItem.json,
+								pairedItem: { item: i },
 							});
+						} else if (operation === 'upsert') {
+							const matchBy = this.getNodeParameter('matchBy', i) as string;
+							const requestBody = buildAgentCreateBody(this, i);
+							const agentKeyStore = this.getWorkflowStaticData('node') as AgentKeyStore;
+							let externalKey = '';
+							let existingAgent: IDataObject | undefined;
+							let upsertResult: string;
+							
+							if (matchBy === 'externalKey') {
+								externalKey = this.getNodeParameter('externalKey', i) as string;
+								
+								if (!externalKey) {
+									throw new ApplicationError('Please specify the external key to match the agent by');
+								}
+								
+								const existingAgentId = agentKeyStore.agentsByKey?.[externalKey];
+								
+								if (existingAgentId) {
+									try {
+										existingAgent = (await beyondPresenceApiRequest.call(
+											this,
+											'GET',
+											`/agent/${encodeURIComponent(existingAgentId)}`,
+										)) as IDataObject;
+									} catch (error) {
+										// The agent was deleted outside of n8n, so it is created again
+										if (beyondPresenceHelpers.getErrorStatusCode(error as JsonObject) !== 404) {
+											throw error;
+										}
+									}
+								}
+							} else {
+								agentsForUpsert ??= await beyondPresenceApiRequestAllItems.call(this, '/agent');
+								existingAgent = agentsForUpsert.find((agent) => agent.name === requestBody.name);
+							}
+							
+							if (!existingAgent) {
+								responseData = await beyondPresenceApiRequest.call(this, 'POST', '/agent', requestBody);
+								upsertResult = 'created';
+								
+								// Later items with the same name update the agent created here
+								agentsForUpsert?.push(responseData as IDataObject);
+							} else {
+								const changes = beyondPresenceHelpers.getAgentChanges(existingAgent, requestBody);
+								
+								if (Object.keys(changes).length === 0) {
+									responseData = existingAgent;
+									upsertResult = 'unchanged';
+								} else {
+									responseData = await beyondPresenceApiRequest.call(
+										this,
+										'PATCH',
+										`/agent/${encodeURIComponent(existingAgent.id as string)}`,
+										changes,
+									);
+									upsertResult = 'updated';
+									
+									if (agentsForUpsert) {
+										agentsForUpsert[agentsForUpsert.indexOf(existingAgent)] = responseData as IDataObject;
+									}
+								}
+							}
+							
+							if (matchBy === 'externalKey') {
+								agentKeyStore.agentsByKey = {
+									...agentKeyStore.agentsByKey,
+									[externalKey]: (responseData as IDataObject).id as string,
+								};
+							}
 							
-							const formattedResponse = beyondPresenceHelpers.formatResponse(responseData);
+							const upsertedItem = await withCallLinkOptions(this, i, {
+								...beyondPresenceHelpers.formatResponse(responseData, callLinkBaseUrl),
+								upsert_result: upsertResult,
+							});
 							
 							returnItems.push({
-								json: formattedResponse,
+								...upsertedItem,
+								json: (this.getNodeParameter('simplify', i, false) as boolean)
+									? beyondPresenceHelpers.simplifyAgent(upsertedItem.json)
+									: upsertedItem.json,
+								pairedItem: { item: i },
+							});
+						} else if (operation === 'get') {
+							const agentId = this.getNodeParameter('agentId', i) as string;
+							
+							responseData = await beyondPresenceApiRequest.call(this, 'GET', `/agent/${encodeURIComponent(agentId)}`);
+							
+							returnItems.push({
+								...(await withCallLinkOptions(
+									this,
+									i,
+									beyondPresenceHelpers.formatResponse(responseData, callLinkBaseUrl),
+								)),
+								pairedItem: { item: i },
+							});
+						} else if (operation === 'getAll') {
+							const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+							const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+							
+							const agents = await beyondPresenceApiRequestAllItems.call(this, '/agent', {}, limit);
+							
+							for (const agent of agents) {
+								returnItems.push({
+									...(await withCallLinkOptions(
+										this,
+										i,
+										beyondPresenceHelpers.formatResponse(agent, callLinkBaseUrl),
+									)),
+									pairedItem: { item: i },
+								});
+							}
+						} else if (operation === 'update') {
+							const agentId = this.getNodeParameter('agentId', i) as string;
+							const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+							const requestBody: IDataObject = {};
+							
+							if (updateFields.systemPrompt !== undefined) {
+								requestBody.system_prompt = updateFields.systemPrompt;
+							}
+							if (updateFields.greeting !== undefined) {
+								requestBody.greeting = updateFields.greeting;
+							}
+							if (updateFields.language !== undefined) {
+								requestBody.language = updateFields.language;
+							}
+							if (updateFields.maxSessionLengthMinutes !== undefined) {
+								requestBody.max_session_length_minutes = updateFields.maxSessionLengthMinutes;
+							}
+							if (updateFields.capabilities !== undefined) {
+								requestBody.capabilities = updateFields.capabilities;
+							}
+							if (updateFields.tools !== undefined) {
+								requestBody.tools = getAgentTools(updateFields.tools as IDataObject) ?? [];
+							}
+							
+							if (Object.keys(requestBody).length === 0) {
+								throw new ApplicationError('Please specify at least one field to update');
+							}
+							
+							responseData = await beyondPresenceApiRequest.call(
+								this,
+								'PATCH',
+								`/agent/${encodeURIComponent(agentId)}`,
+								requestBody,
+							);
+							
+							returnItems.push({
+								...(await withCallLinkOptions(
+									this,
+									i,
+									beyondPresenceHelpers.formatResponse(responseData, callLinkBaseUrl),
+								)),
+								pairedItem: { item: i },
+							});
+						} else if (operation === 'delete') {
+							const agentId = this.getNodeParameter('agentId', i) as string;
+							
+							await beyondPresenceApiRequest.call(this, 'DELETE', `/agent/${encodeURIComponent(agentId)}`);
+							
+							returnItems.push({
+								json: { id: agentId, deleted: true },
 								pairedItem: { item: i },
 							});
 						}
-					} else if (resource === 'avatar') {
+					} else if (resource === 'call') {
 						if (operation === 'get') {
-							const credentials = await this.getCredentials('beyondPresenceApi');
-							
-							responseData = await this.helpers.httpRequest({
-								method: 'GET',
-								url: 'https://api.bey.dev/v1/avatar',
-								headers: {
-									'Accept': 'application/json',
-									'Content-Type': 'application/json',
-									'x-api-key': credentials.apiKey as string,
-								},
-								json: true,
+							const callId = this.getNodeParameter('callId', i) as string;
+							
+							const call = (await beyondPresenceApiRequest.call(
+								this,
+								'GET',
+								`/calls/${encodeURIComponent(callId)}`,
+							)) as ApiCall;
+							const messages = await beyondPresenceGetCallMessages.call(this, callId);
+							
+							returnItems.push({
+								json: beyondPresenceHelpers.processCallEndedEvent(
+									beyondPresenceHelpers.buildCallEndedEvent(call, messages),
+								),
+								pairedItem: { item: i },
 							});
+						} else if (operation === 'getAll') {
+							const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+							const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+							const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+							const includeMessages = this.getNodeParameter('includeMessages', i, true) as boolean;
+							const qs: IDataObject = {};
+							
+							if (filters.agentId) {
+								qs.agent_id = filters.agentId;
+							}
+							if (filters.startedAfter) {
+								qs.started_after = filters.startedAfter;
+							}
+							if (filters.startedBefore) {
+								qs.started_before = filters.startedBefore;
+							}
+							
+							const calls = (await beyondPresenceApiRequestAllItems.call(
+								this,
+								'/calls',
+								qs,
+								limit,
+							)) as ApiCall[];
+							
+							for (const call of calls) {
+								const messages = includeMessages
+									? await beyondPresenceGetCallMessages.call(this, call.id)
+									: [];
+								const processedCall = beyondPresenceHelpers.processCallEndedEvent(
+									beyondPresenceHelpers.buildCallEndedEvent(call, messages),
+								);
+								
+								// Without fetched messages these are unknown rather than empty, so the shape stays the same
+								if (!includeMessages) {
+									processedCall.call_summary = {
+										...(processedCall.call_summary as IDataObject),
+										first_message: null,
+										last_message: null,
+									};
+									processedCall.analytics = null;
+									processedCall.messages = null;
+								}
+								
+								returnItems.push({
+									json: processedCall,
+									pairedItem: { item: i },
+								});
+							}
+						} else if (operation === 'getMessages') {
+							const callId = this.getNodeParameter('callId', i) as string;
+							
+							const messages = await beyondPresenceGetCallMessages.call(this, callId);
+							
+							for (const msg of messages) {
+								returnItems.push({
+									json: {
+										call_id: callId,
+										sender: msg.sender || '',
+										message: msg.message || '',
+										timestamp: msg.sent_at || '',
+									},
+									pairedItem: { item: i },
+								});
+							}
+						}
+					} else if (resource === 'avatar') {
+						if (operation === 'get') {
+							const splitIntoItems = this.getNodeParameter('splitIntoItems', i, false) as boolean;
+							const simplify = this.getNodeParameter('simplify', i, false) as boolean;
+							
+							if (splitIntoItems) {
+								const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+								const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+								const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+								const nameContains = ((filters.nameContains as string) || '').toLowerCase();
+								
+								let avatars = await beyondPresenceApiRequestAllItems.call(this, '/avatar');
+								
+								if (nameContains) {
+									avatars = avatars.filter((avatar) =>
+										String(avatar.name || '').toLowerCase().includes(nameContains),
+									);
+								}
+								
+								if (limit !== undefined) {
+									avatars = avatars.slice(0, limit);
+								}
+								
+								for (const avatar of avatars) {
+									returnItems.push({
+										json: simplify ? beyondPresenceHelpers.pickFields(avatar, ['id', 'name']) : avatar,
+										pairedItem: { item: i },
+									});
+								}
+								continue;
+							}
 							
-							const formattedResponse = beyondPresenceHelpers.formatResponse(responseData);
+							responseData = await beyondPresenceApiRequest.call(this, 'GET', '/avatar');
+							
+							const formattedResponse = simplify
+								? beyondPresenceHelpers.simplifyAvatars(responseData)
+								: beyondPresenceHelpers.formatResponse(responseData, callLinkBaseUrl);
 							
 							returnItems.push({
 								json: formattedResponse,
 								pairedItem: { item: i },
 							});
 						}
+					} else if (resource === 'document') {
+						if (operation === 'upload') {
+							const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+							const options = this.getNodeParameter('documentOptions', i, {}) as IDataObject;
+							const binaryData = this.helpers.assertBinaryData(i, binaryPropertyName);
+							const fileName = binaryData.fileName || binaryPropertyName;
+							const form = new FormData();
+							
+							form.append('file', await this.helpers.getBinaryDataBuffer(i, binaryPropertyName), {
+								filename: fileName,
+								contentType: binaryData.mimeType,
+							});
+							form.append('name', (options.name as string) || fileName);
+							
+							responseData = await beyondPresenceApiRequest.call(this, 'POST', '/documents', form);
+							
+							returnItems.push({
+								json: responseData as IDataObject,
+								pairedItem: { item: i },
+							});
+						} else if (operation === 'getAll') {
+							const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+							const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+							
+							const documents = await beyondPresenceApiRequestAllItems.call(this, '/documents', {}, limit);
+							
+							for (const document of documents) {
+								returnItems.push({
+									json: document,
+									pairedItem: { item: i },
+								});
+							}
+						} else if (operation === 'delete') {
+							const documentId = this.getNodeParameter('documentId', i) as string;
+							
+							await beyondPresenceApiRequest.call(this, 'DELETE', `/documents/${encodeURIComponent(documentId)}`);
+							
+							returnItems.push({
+								json: { id: documentId, deleted: true },
+								pairedItem: { item: i },
+							});
+						} else if (operation === 'attach') {
+							const agentId = this.getNodeParameter('agentId', i) as string;
+							const documentId = this.getNodeParameter('documentId', i) as string;
+							
+							await beyondPresenceApiRequest.call(this, 'POST', `/agent/${encodeURIComponent(agentId)}/documents`, {
+								document_ids: [documentId],
+							});
+							
+							returnItems.push({
+								json: { agent_id: agentId, document_id: documentId, attached: true },
+								pairedItem: { item: i },
+							});
+						} else if (operation === 'detach') {
+							const agentId = this.getNodeParameter('agentId', i) as string;
+							const documentId = this.getNodeParameter('documentId', i) as string;
+							
+							await beyondPresenceApiRequest.call(
+								this,
+								'DELETE',
+								`/agent/${encodeURIComponent(agentId)}/documents/${encodeURIComponent(documentId)}`,
+							);
+							
+							returnItems.push({
+								json: { agent_id: agentId, document_id: documentId, detached: true },
+								pairedItem: { item: i },
+							});
+						}
 					}
 				} catch (error) {
 					if (this.continueOnFail()) {
@@ -322,21 +844,45 @@ export class BeyondPresence implements INodeType {
 			return this.prepareOutputData(returnItems);
 		}
 		
+		const outputs = configuredOutputs(this.getNode().parameters);
+		const outputItems: INodeExecutionData[][] = outputs.map(() => []);
+		
 		for (let i = 0; i < items.length; i++) {
+			const operation = this.getNodeParameter('operation', i) as string;
+			const routeByEventType = operation === 'handleEvent' &&
+				(this.getNodeParameter('routeByEventType', i, false) as boolean);
+			
 			try {
-				const operation = this.getNodeParameter('operation', i) as string;
-				
 				if (operation === 'handleEvent') {
-					const eventType = this.getNodeParameter('eventType', i) as string;
+					const assembleSessions = this.getNodeParameter('assembleSessions', i, false) as boolean;
+					const eventType = assembleSessions || routeByEventType
+						? 'all'
+						: (this.getNodeParameter('eventType', i) as string);
+					const filterRules = ((this.getNodeParameter('filterRules', i, {}) as IDataObject).rules ||
+						[]) as FilterRule[];
+					const filterCombine = this.getNodeParameter('filterCombine', i, 'and') as string;
+					const simplify = this.getNodeParameter('simplify', i, false) as boolean;
+					const emit = (json: IDataObject) => {
+						const eventOutputIndex = beyondPresenceHelpers.getEventOutputIndex(json.event_type as string);
+						
+						// Unknown events routed to their own output have none of the filtered fields, so they bypass the rules
+						if (
+							!(routeByEventType && eventOutputIndex === UNKNOWN_EVENT_OUTPUT_INDEX) &&
+							!beyondPresenceHelpers.matchesFilterRules(json, filterRules, filterCombine)
+						) {
+							return;
+						}
+						
+						outputItems[routeByEventType ? eventOutputIndex : 0].push({
+							json: simplify ? beyondPresenceHelpers.simplifyEvent(json) : json,
+							pairedItem: { item: i },
+						});
+					};
 					const filterByAgentIds = this.getNodeParameter('filterByAgentIds', i, false) as boolean;
 					let agentIds: string[] = [];
 					
 					if (filterByAgentIds) {
-						const agentIdsString = this.getNodeParameter('agentIds', i, '') as string;
-						if (!agentIdsString || agentIdsString.trim() === '') {
-							throw new ApplicationError('Agent IDs required when filtering is enabled');
-						}
-						agentIds = agentIdsString.split(',').map(id => id.trim());
+						agentIds = beyondPresenceHelpers.parseAgentIds(this.getNodeParameter('agentIds', i, '') as string);
 					}
 					
 					const webhookDataRaw = this.getNodeParameter('webhookData', i) as string | object;
@@ -346,43 +892,136 @@ export class BeyondPresence implements INodeType {
 					}
 					
 					const webhookData = beyondPresenceHelpers.parseWebhookData(webhookDataRaw);
+					const validationWarnings = beyondPresenceHelpers.validateWebhookData(
+						webhookData,
+						this.getNodeParameter('validation', i, 'lenient') as string,
+					);
+					
+					if (this.getNodeParameter('deduplicate', i, false) as boolean) {
+						const deduplicationStore = this.getWorkflowStaticData('node') as DeduplicationStore;
+						const deduplicationTtl = this.getNodeParameter('deduplicationTtl', i, 1440) as number;
+						const isDuplicate = beyondPresenceHelpers.isDuplicateEvent(
+							deduplicationStore,
+							beyondPresenceHelpers.getEventFingerprint(webhookData),
+							deduplicationTtl * 60000,
+							Date.now(),
+						);
+						
+						if (isDuplicate) {
+							if (this.getNodeParameter('duplicateHandling', i, 'skip') === 'output') {
+								outputItems[outputs.length - 1].push({
+									json: webhookData as IDataObject,
+									pairedItem: { item: i },
+								});
+							}
+							continue;
+						}
+					}
+					
+					if (assembleSessions) {
+						const sessionStore = this.getWorkflowStaticData('node') as SessionStore;
+						const sessionTimeout = this.getNodeParameter('sessionTimeout', i, 30) as number;
+						const now = Date.now();
+						const assembled = beyondPresenceHelpers.flushStaleSessions(sessionStore, sessionTimeout * 60000, now);
+						
+						if (beyondPresenceHelpers.matchesEventFilters(webhookData, eventType, agentIds)) {
+							assembled.push(
+								...beyondPresenceHelpers.bufferSessionEvent(sessionStore, webhookData, now, validationWarnings),
+							);
+						}
+						
+						assembled.forEach(emit);
+						continue;
+					}
 					
-					if (eventType !== 'all' && webhookData.event_type !== eventType) {
+					if (!beyondPresenceHelpers.matchesEventFilters(webhookData, eventType, agentIds)) {
 						continue;
 					}
 					
-					const extractedAgentId = beyondPresenceHelpers.getAgentId(webhookData);
+					const processedData: IDataObject = beyondPresenceHelpers.processWebhookEvent(webhookData);
 					
-					if (filterByAgentIds && agentIds.length > 0) {
-						if (!extractedAgentId || !agentIds.includes(extractedAgentId)) {
-							continue;
-						}
+					if (validationWarnings.length > 0) {
+						processedData.validation_warnings = validationWarnings;
 					}
 					
-					let processedData: IDataObject;
+					emit(processedData);
+				} else if (operation === 'formatTranscript') {
+					const format = this.getNodeParameter('transcriptFormat', i) as TranscriptFormat;
+					const outputType = this.getNodeParameter('transcriptOutput', i) as string;
+					const options = this.getNodeParameter('transcriptOptions', i, {}) as IDataObject;
+					
+					const transcript = transcriptHelpers.render(this.getNodeParameter('messages', i), format, {
+						agentLabel: (options.agentLabel as string) || 'Agent',
+						userLabel: (options.userLabel as string) || 'User',
+						includeTimestamps: options.includeTimestamps !== false,
+					});
 					
-					if (webhookData.event_type === 'call_ended') {
-						processedData = beyondPresenceHelpers.processCallEndedEvent(webhookData as CallEndedEvent);
-					} else if (webhookData.event_type === 'message') {
-						processedData = beyondPresenceHelpers.processMessageEvent(webhookData as MessageEvent);
+					if (outputType === 'binary') {
+						const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+						const { extension, mimeType } = transcriptFileTypes[format];
+						const callId = (items[i].json.call_id as string) || 'transcript';
+						const fileName = (options.fileName as string) || `${callId}.${extension}`;
+						
+						outputItems[0].push({
+							json: items[i].json,
+							binary: {
+								...items[i].binary,
+								[binaryPropertyName]: await this.helpers.prepareBinaryData(
+									Buffer.from(transcript, 'utf8'),
+									fileName,
+									mimeType,
+								),
+							},
+							pairedItem: { item: i },
+						});
 					} else {
-						processedData = {
-							event_type: webhookData.event_type || 'unknown',
-							call_id: webhookData.call_id || '',
-							agent_id: extractedAgentId,
-						};
+						const outputField = this.getNodeParameter('outputField', i) as string;
+						
+						outputItems[0].push({
+							json: {
+								...items[i].json,
+								[outputField]: transcript,
+							},
+							pairedItem: { item: i },
+						});
 					}
+				} else if (operation === 'generateSampleEvent') {
+					const options = this.getNodeParameter('sampleOptions', i, {}) as IDataObject;
+					const seed = options.seed as number | undefined;
 					
-					returnItems.push({
-						json: processedData,
-						pairedItem: { item: i },
+					const sampleEvents = sandboxHelpers.generateSampleEvents({
+						eventType: this.getNodeParameter('sampleEventType', i) as SampleEventOptions['eventType'],
+						agentId: (options.agentId as string) || '',
+						userName: (options.userName as string) || 'Jane Doe',
+						messageCount: (options.messageCount as number | undefined) ?? 6,
+						durationMinutes: (options.durationMinutes as number | undefined) ?? 5,
+						userSentiment: (options.userSentiment as string) || 'positive',
+						topic: (options.topic as string) || 'Product questions',
+						seed: seed === undefined ? undefined : seed + i,
 					});
+					
+					for (const sampleEvent of sampleEvents) {
+						outputItems[0].push({
+							json: sampleEvent,
+							pairedItem: { item: i },
+						});
+					}
 				} else {
-					returnItems.push(items[i]);
+					outputItems[0].push(items[i]);
 				}
 			} catch (error) {
+				if (routeByEventType) {
+					outputItems[ERROR_OUTPUT_INDEX].push({
+						json: {
+							error: (error as Error).message,
+							payload: this.getNodeParameter('webhookData', i, null) as IDataObject,
+						},
+						pairedItem: { item: i },
+					});
+					continue;
+				}
 				if (this.continueOnFail()) {
-					returnItems.push({
+					outputItems[0].push({
 						json: {
 							error: (error as Error).message,
 						},
@@ -396,7 +1035,7 @@ export class BeyondPresence implements INodeType {
 			}
 		}
 		
-		return this.prepareOutputData(returnItems);
+		return outputItems;
 	}
 	
 	description: INodeTypeDescription = {
@@ -411,15 +1050,17 @@ export class BeyondPresence implements INodeType {
 			name: 'Beyond Presence',
 		},
 		inputs: <NodeConnectionType[]>['main'],
-		outputs: <NodeConnectionType[]>['main'],
+		outputs: `={{(${configuredOutputs})($parameter)}}`,
+		usableAsTool: true,
 		credentials: [
 			{
 				name: 'beyondPresenceApi',
 				required: true,
+				testedBy: 'beyondPresenceApiTest',
 			},
 		],
 		requestDefaults: {
-			baseURL: 'https://api.bey.dev/v1',
+			baseURL: '={{$credentials.baseUrl}}',
 			headers: {
 				Accept: 'application/json',
 				'Content-Type': 'application/json',
@@ -440,6 +1081,15 @@ export class BeyondPresence implements INodeType {
 						name: 'Avatar',
 						value: 'avatar',
 					},
+					{
+						name: 'Call',
+						value: 'call',
+					},
+					{
+						name: 'Document',
+						value: 'document',
+						description: 'Knowledge base documents that agents use to answer questions',
+					},
 					{
 						name: 'Webhook',
 						value: 'webhook',
@@ -464,108 +1114,283 @@ export class BeyondPresence implements INodeType {
 						action: 'Create a new agent',
 						description: 'Deploy a new agent with configuration',
 					},
+					{
+						name: 'Create or Update',
+						value: 'upsert',
+						action: 'Create or update an agent',
+						description: 'Create a new record, or update the current one if it already exists (upsert)',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						action: 'Delete an agent',
+						description: 'Delete an agent by ID',
+					},
+					{
+						name: 'Delete Expired',
+						value: 'deleteExpired',
+						action: 'Delete expired ephemeral agents',
+						description: 'Delete the ephemeral agents whose TTL has passed, or whose call ended',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						action: 'Get an agent',
+						description: 'Get an agent by ID',
+					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						action: 'Get many agents',
+						description: 'Get many agents',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						action: 'Update an agent',
+						description: 'Update the configuration of an agent',
+					},
 				],
 				default: 'create',
 			},
 			{
-				displayName: 'Avatar ID',
-				name: 'avatarId',
+				displayName: 'Agent ID',
+				name: 'agentId',
 				type: 'string',
-				// Ege's stock avatar
-				// Ref: https://docs.bey.dev/avatars/default
-				default: 'b9be11b8-89fb-4227-8f86-4a881393cbdb',
+				required: true,
+				default: '',
 				displayOptions: {
 					show: {
 						resource: ['agent'],
-						operation: ['create'],
+						operation: ['delete', 'get', 'update'],
 					},
 				},
-				description: 'ID of the avatar to use for the agent',
+				description: 'ID of the agent',
 			},
 			{
-				displayName: 'System Prompt',
-				name: 'systemPrompt',
-				type: 'string',
-				default: 'You are a helpful assistant.',
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				default: false,
 				displayOptions: {
 					show: {
-						resource: ['agent'],
-						operation: ['create'],
+						resource: ['agent', 'call'],
+						operation: ['getAll'],
 					},
 				},
-				description: 'System prompt for the agent',
+				description: 'Whether to return all results or only up to a given limit',
 			},
 			{
-				displayName: 'Name',
-				name: 'name',
-				type: 'string',
-				default: 'My Agent',
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				default: 50,
+				typeOptions: {
+					minValue: 1,
+				},
 				displayOptions: {
 					show: {
-						resource: ['agent'],
-						operation: ['create'],
+						resource: ['agent', 'call'],
+						operation: ['getAll'],
+						returnAll: [false],
 					},
 				},
-				description: 'Name of the agent',
+				description: 'Max number of results to return',
 			},
 			{
-				displayName: 'Language',
-				name: 'language',
-				type: 'options',
-				default: 'en',
+				displayName: 'Update Fields',
+				name: 'updateFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['update'],
+					},
+				},
 				options: [
 					{
-						name: 'Arabic',
-						value: 'ar',
+						displayName: 'Capabilities',
+						name: 'capabilities',
+						type: 'multiOptions',
+						default: [],
+						options: capabilityOptions,
+						description: 'Capabilities of the agent',
 					},
 					{
-						name: 'Chinese',
-						value: 'zh',
+						displayName: 'Greeting',
+						name: 'greeting',
+						type: 'string',
+						default: '',
+						description: 'Greeting message for the agent',
 					},
 					{
-						name: 'English',
-						value: 'en',
+						displayName: 'Language',
+						name: 'language',
+						type: 'options',
+						default: 'en',
+						options: languageOptions,
+						description: 'Language for the agent',
 					},
 					{
-						name: 'French',
-						value: 'fr',
+						displayName: 'Max Session Length (Minutes)',
+						name: 'maxSessionLengthMinutes',
+						type: 'number',
+						default: 30,
+						description: 'Maximum session length in minutes',
 					},
 					{
-						name: 'German',
-						value: 'de',
+						displayName: 'System Prompt',
+						name: 'systemPrompt',
+						type: 'string',
+						default: '',
+						description: 'System prompt for the agent',
 					},
+					toolsProperty,
+				],
+			},
+			{
+				displayName: 'Match By',
+				name: 'matchBy',
+				type: 'options',
+				noDataExpression: true,
+				default: 'name',
+				options: [
 					{
-						name: 'Italian',
-						value: 'it',
+						name: 'External Key',
+						value: 'externalKey',
+						description: 'Match the agent previously upserted by this node with the same external key',
 					},
 					{
-						name: 'Japanese',
-						value: 'ja',
+						name: 'Name',
+						value: 'name',
+						description: 'Match an existing agent with the same name',
 					},
-					{
-						name: 'Korean',
-						value: 'ko',
+				],
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['upsert'],
 					},
+				},
+				description: 'How to find the agent to update',
+			},
+			{
+				displayName: 'External Key',
+				name: 'externalKey',
+				type: 'string',
+				required: true,
+				default: '',
+				placeholder: 'spring-campaign',
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['upsert'],
+						matchBy: ['externalKey'],
+					},
+				},
+				description: 'Key identifying the agent, such as a campaign ID. The agent ID is remembered per key in the workflow static data.',
+			},
+			{
+				displayName: 'Avatar',
+				name: 'avatarId',
+				type: 'resourceLocator',
+				// Ege's stock avatar
+				// Ref: https://docs.bey.dev/avatars/default
+				default: { mode: 'id', value: 'b9be11b8-89fb-4227-8f86-4a881393cbdb' },
+				modes: [
 					{
-						name: 'Portuguese',
-						value: 'pt',
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchAvatars',
+							searchable: true,
+						},
 					},
 					{
-						name: 'Russian',
-						value: 'ru',
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'b9be11b8-89fb-4227-8f86-4a881393cbdb',
+						validation: [
+							{
+								type: 'regex',
+								properties: {
+									regex: AVATAR_ID_REGEX,
+									errorMessage: 'Not a valid avatar ID',
+								},
+							},
+						],
 					},
 					{
-						name: 'Spanish',
-						value: 'es',
+						displayName: 'By URL',
+						name: 'url',
+						type: 'string',
+						placeholder: 'https://app.bey.dev/avatars/b9be11b8-89fb-4227-8f86-4a881393cbdb',
+						extractValue: {
+							type: 'regex',
+							regex: `/(${AVATAR_ID_REGEX})`,
+						},
+						validation: [
+							{
+								type: 'regex',
+								properties: {
+									regex: `https?://.+/${AVATAR_ID_REGEX}`,
+									errorMessage: 'Not a valid avatar URL',
+								},
+							},
+						],
 					},
 				],
 				displayOptions: {
 					show: {
 						resource: ['agent'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
+					},
+				},
+				description: 'The avatar that gives the agent its face and voice. Use the ID returned by Avatar Get.',
+			},
+			{
+				displayName: 'System Prompt',
+				name: 'systemPrompt',
+				type: 'string',
+				default: 'You are a helpful assistant.',
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create', 'upsert'],
+					},
+				},
+				description: 'Instructions that define the role, tone and knowledge of the agent during the call',
+			},
+			{
+				displayName: 'Name',
+				name: 'name',
+				type: 'string',
+				default: 'My Agent',
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create', 'upsert'],
+					},
+				},
+				description: 'Display name of the agent, for example the name of the campaign or the lead it was created for',
+			},
+			{
+				displayName: 'Language',
+				name: 'language',
+				type: 'options',
+				default: 'en',
+				options: languageOptions,
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create', 'upsert'],
 					},
 				},
-				description: 'Language for the agent',
+				description: 'Language the agent speaks and understands during the call',
 			},
 			{
 				displayName: 'Greeting',
@@ -575,10 +1400,10 @@ export class BeyondPresence implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['agent'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 					},
 				},
-				description: 'Greeting message for the agent',
+				description: 'First sentence the agent says when the user joins the call',
 			},
 			{
 				displayName: 'Max Session Length (Minutes)',
@@ -588,30 +1413,269 @@ export class BeyondPresence implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['agent'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 					},
 				},
-				description: 'Maximum session length in minutes',
+				description: 'Maximum length of a call with the agent in minutes, after which the call ends',
 			},
 			{
 				displayName: 'Capabilities',
 				name: 'capabilities',
 				type: 'multiOptions',
 				default: [],
-				options: [
-					{
-						name: 'Webcam Vision',
-						value: 'webcam_vision',
-						description: 'Enable webcam vision capability for the agent',
+				options: capabilityOptions,
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create', 'upsert'],
 					},
-				],
+				},
+				description: 'Capabilities of the agent',
+			},
+			{
+				...toolsProperty,
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create', 'upsert'],
+					},
+				},
+			},
+			{
+				displayName: 'Ephemeral',
+				name: 'ephemeral',
+				type: 'boolean',
+				default: false,
 				displayOptions: {
 					show: {
 						resource: ['agent'],
 						operation: ['create'],
 					},
 				},
-				description: 'Capabilities of the agent',
+				description: 'Whether to track the agent in the workflow static data so the Delete Expired operation removes it once it is no longer needed',
+			},
+			{
+				displayName: 'TTL (Minutes)',
+				name: 'ttlMinutes',
+				type: 'number',
+				default: 60,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create'],
+						ephemeral: [true],
+					},
+				},
+				description: 'How long the agent is kept before it expires',
+			},
+			{
+				displayName: 'Delete After Call',
+				name: 'deleteAfterCall',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create'],
+						ephemeral: [true],
+					},
+				},
+				description: 'Whether the agent also expires as soon as one of its calls has ended',
+			},
+			{
+				displayName: 'Bulk Mode',
+				name: 'bulkMode',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create'],
+					},
+				},
+				description: 'Whether to create agents for all items concurrently and report success or failure per item instead of stopping at the first error',
+			},
+			{
+				displayName: 'Concurrency',
+				name: 'concurrency',
+				type: 'number',
+				default: 5,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create'],
+						bulkMode: [true],
+					},
+				},
+				description: 'Maximum number of agents created at the same time',
+			},
+			{
+				displayName: 'Delay Between Requests (Ms)',
+				name: 'batchDelay',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create'],
+						bulkMode: [true],
+					},
+				},
+				description: 'Time each of the concurrent workers waits before sending its next request',
+			},
+			{
+				displayName: 'Simplify',
+				name: 'simplify',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create', 'upsert'],
+					},
+				},
+				description: 'Whether to return a simplified version of the response instead of the raw data',
+				hint: 'Returns only the ID, name, language, call link and, for upserts, whether the agent was created, updated or unchanged',
+			},
+			{
+				displayName: 'Call Link Options',
+				name: 'callLinkOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['agent'],
+						operation: ['create', 'get', 'getAll', 'update', 'upsert'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Embed Height',
+						name: 'embedHeight',
+						type: 'string',
+						default: '600',
+						description: 'Height of the iframe, in pixels or as a CSS length',
+					},
+					{
+						displayName: 'Embed HTML',
+						name: 'embedHtml',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to add an iframe snippet embedding the call link as embed_html',
+					},
+					{
+						displayName: 'Embed Permissions',
+						name: 'embedPermissions',
+						type: 'multiOptions',
+						default: ['fullscreen', 'microphone'],
+						options: [
+							{
+								name: 'Autoplay',
+								value: 'autoplay',
+							},
+							{
+								name: 'Camera',
+								value: 'camera',
+							},
+							{
+								name: 'Display Capture',
+								value: 'display-capture',
+							},
+							{
+								name: 'Fullscreen',
+								value: 'fullscreen',
+							},
+							{
+								name: 'Microphone',
+								value: 'microphone',
+							},
+						],
+						description: 'Browser features the iframe may use. Camera and microphone are always allowed for agents with webcam vision.',
+					},
+					{
+						displayName: 'Embed Width',
+						name: 'embedWidth',
+						type: 'string',
+						default: '100%',
+						description: 'Width of the iframe, in pixels or as a CSS length',
+					},
+					{
+						displayName: 'QR Code Binary Property',
+						name: 'qrCodeBinaryPropertyName',
+						type: 'string',
+						default: 'qrCode',
+						description: 'The name of the output binary field to put the QR code in',
+					},
+					{
+						displayName: 'QR Code Format',
+						name: 'qrCodeFormat',
+						type: 'options',
+						default: 'png',
+						options: [
+							{
+								name: 'PNG',
+								value: 'png',
+							},
+							{
+								name: 'SVG',
+								value: 'svg',
+							},
+						],
+						description: 'Add a QR code of the call link as a binary file in this format',
+					},
+					{
+						displayName: 'QR Code Size',
+						name: 'qrCodeSize',
+						type: 'number',
+						default: 300,
+						typeOptions: {
+							minValue: 21,
+						},
+						description: 'Width and height of the QR code in pixels',
+					},
+					{
+						displayName: 'Query Parameters',
+						name: 'queryParameters',
+						type: 'fixedCollection',
+						placeholder: 'Add Parameter',
+						default: {},
+						typeOptions: {
+							multipleValues: true,
+						},
+						options: [
+							{
+								displayName: 'Parameter',
+								name: 'parameters',
+								values: [
+									{
+										displayName: 'Name',
+										name: 'name',
+										type: 'string',
+										default: '',
+										placeholder: 'utm_source',
+									},
+									{
+										displayName: 'Value',
+										name: 'value',
+										type: 'string',
+										default: '',
+									},
+								],
+							},
+						],
+						description: 'Query parameters added to the call link, such as a prefilled user name or UTM tags',
+					},
+				],
 			},
 			{
 				displayName: 'Operation',
@@ -628,11 +1692,326 @@ export class BeyondPresence implements INodeType {
 						name: 'Get',
 						value: 'get',
 						action: 'Get the available avatars',
-						description: 'Get the available Avatars',
+						description: 'Get the avatars that can be used to create an agent, with their IDs and names',
+					},
+				],
+				default: 'get',
+			},
+			{
+				displayName: 'Split Into Items',
+				name: 'splitIntoItems',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['avatar'],
+						operation: ['get'],
+					},
+				},
+				description: 'Whether to output one item per avatar instead of the whole API response',
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['avatar'],
+						operation: ['get'],
+						splitIntoItems: [true],
+					},
+				},
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				default: 50,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['avatar'],
+						operation: ['get'],
+						splitIntoItems: [true],
+						returnAll: [false],
+					},
+				},
+				description: 'Max number of results to return',
+			},
+			{
+				displayName: 'Filters',
+				name: 'filters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['avatar'],
+						operation: ['get'],
+						splitIntoItems: [true],
+					},
+				},
+				options: [
+					{
+						displayName: 'Name Contains',
+						name: 'nameContains',
+						type: 'string',
+						default: '',
+						description: 'Only return avatars whose name contains this text (case-insensitive)',
+					},
+				],
+			},
+			{
+				displayName: 'Simplify',
+				name: 'simplify',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['avatar'],
+						operation: ['get'],
+					},
+				},
+				description: 'Whether to return a simplified version of the response instead of the raw data',
+				hint: 'Returns only the ID and name of each avatar, enough to pick one for a new agent',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['call'],
+					},
+				},
+				options: [
+					{
+						name: 'Get',
+						value: 'get',
+						action: 'Get a call',
+						description: 'Get a call with its summary and messages',
+					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						action: 'Get many calls',
+						description: 'Get many calls',
+					},
+					{
+						name: 'Get Messages',
+						value: 'getMessages',
+						action: 'Get the messages of a call',
+						description: 'Get the transcript messages of a call',
 					},
 				],
 				default: 'get',
 			},
+			{
+				displayName: 'Call ID',
+				name: 'callId',
+				type: 'string',
+				required: true,
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['call'],
+						operation: ['get', 'getMessages'],
+					},
+				},
+				description: 'ID of the call',
+			},
+			{
+				displayName: 'Include Messages',
+				name: 'includeMessages',
+				type: 'boolean',
+				default: true,
+				displayOptions: {
+					show: {
+						resource: ['call'],
+						operation: ['getAll'],
+					},
+				},
+				description: 'Whether to fetch the messages of each call. Requires one extra request per call. Without them, the messages, analytics and first and last message of each call are null.',
+			},
+			{
+				displayName: 'Filters',
+				name: 'filters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['call'],
+						operation: ['getAll'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Agent ID',
+						name: 'agentId',
+						type: 'string',
+						default: '',
+						description: 'Only return calls of this agent',
+					},
+					{
+						displayName: 'Started After',
+						name: 'startedAfter',
+						type: 'dateTime',
+						default: '',
+						description: 'Only return calls started after this date',
+					},
+					{
+						displayName: 'Started Before',
+						name: 'startedBefore',
+						type: 'dateTime',
+						default: '',
+						description: 'Only return calls started before this date',
+					},
+				],
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['document'],
+					},
+				},
+				options: [
+					{
+						name: 'Attach to Agent',
+						value: 'attach',
+						action: 'Attach a document to an agent',
+						description: 'Add a document to the knowledge base of an agent',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						action: 'Delete a document',
+						description: 'Delete a document by ID',
+					},
+					{
+						name: 'Detach From Agent',
+						value: 'detach',
+						action: 'Detach a document from an agent',
+						description: 'Remove a document from the knowledge base of an agent',
+					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						action: 'Get many documents',
+						description: 'Get many documents',
+					},
+					{
+						name: 'Upload',
+						value: 'upload',
+						action: 'Upload a document',
+						description: 'Upload a file from a binary field as a document',
+					},
+				],
+				default: 'upload',
+			},
+			{
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['upload'],
+					},
+				},
+				default: 'data',
+				required: true,
+				hint: 'The name of the input binary field containing the file to upload',
+			},
+			{
+				displayName: 'Options',
+				name: 'documentOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['upload'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+						description: 'Name of the document. Defaults to the file name.',
+					},
+				],
+			},
+			{
+				displayName: 'Agent ID',
+				name: 'agentId',
+				type: 'string',
+				required: true,
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['attach', 'detach'],
+					},
+				},
+				description: 'ID of the agent',
+			},
+			{
+				displayName: 'Document ID',
+				name: 'documentId',
+				type: 'string',
+				required: true,
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['attach', 'delete', 'detach'],
+					},
+				},
+				description: 'ID of the document',
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['getAll'],
+					},
+				},
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				default: 50,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						operation: ['getAll'],
+						returnAll: [false],
+					},
+				},
+				description: 'Max number of results to return',
+			},
 			{
 				displayName: 'Operation',
 				name: 'operation',
@@ -644,6 +2023,18 @@ export class BeyondPresence implements INodeType {
 					},
 				},
 				options: [
+					{
+						name: 'Format Transcript',
+						value: 'formatTranscript',
+						action: 'Format a call transcript',
+						description: 'Render call messages as text, Markdown, subtitles, CSV or JSON Lines',
+					},
+					{
+						name: 'Generate Sample Event',
+						value: 'generateSampleEvent',
+						action: 'Generate a sample webhook event',
+						description: 'Create realistic message and call_ended payloads for building and testing workflows',
+					},
 					{
 						name: 'Handle Event',
 						value: 'handleEvent',
@@ -655,63 +2046,275 @@ export class BeyondPresence implements INodeType {
 			},
 			{
 				displayName: 'Event Type',
-				name: 'eventType',
+				name: 'sampleEventType',
 				type: 'options',
 				displayOptions: {
 					show: {
 						resource: ['webhook'],
-						operation: ['handleEvent'],
+						operation: ['generateSampleEvent'],
 					},
 				},
 				options: [
 					{
 						name: 'Call Ended',
 						value: 'call_ended',
-						description: 'When a call ends',
+						description: 'One call_ended event with the whole transcript',
 					},
 					{
 						name: 'Message',
 						value: 'message',
-						description: 'When a message is exchanged during a call',
+						description: 'One message event per message of the call',
 					},
 					{
-						name: 'All Events',
-						value: 'all',
-						description: 'Process all event types',
+						name: 'Conversation',
+						value: 'conversation',
+						description: 'The message events of the call followed by its call_ended event',
 					},
 				],
-				default: 'all',
-				description: 'The event type to process',
+				default: 'call_ended',
+				description: 'The events to generate, one item per event',
 			},
 			{
-				displayName: 'Filter by Agent IDs',
-				name: 'filterByAgentIds',
-				type: 'boolean',
+				displayName: 'Options',
+				name: 'sampleOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
 				displayOptions: {
 					show: {
 						resource: ['webhook'],
-						operation: ['handleEvent'],
+						operation: ['generateSampleEvent'],
 					},
 				},
-				default: false,
-				description: 'Whether to filter events by agent IDs',
+				options: [
+					{
+						displayName: 'Agent ID',
+						name: 'agentId',
+						type: 'string',
+						default: '',
+						description: 'ID of the agent the call belongs to. Defaults to a generated ID.',
+					},
+					{
+						displayName: 'Duration (Minutes)',
+						name: 'durationMinutes',
+						type: 'number',
+						default: 5,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Length of the call',
+					},
+					{
+						displayName: 'Message Count',
+						name: 'messageCount',
+						type: 'number',
+						default: 6,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Number of messages exchanged, alternating between the agent and the user',
+					},
+					{
+						displayName: 'Seed',
+						name: 'seed',
+						type: 'number',
+						default: 1,
+						description: 'Seed of the generated IDs, messages and times. The same seed always generates the same events. Leave unset for random events.',
+					},
+					{
+						displayName: 'Topic',
+						name: 'topic',
+						type: 'string',
+						default: 'Product questions',
+						description: 'Topic of the call in its evaluation',
+					},
+					{
+						displayName: 'User Name',
+						name: 'userName',
+						type: 'string',
+						default: 'Jane Doe',
+						description: 'Name of the user who joined the call',
+					},
+					{
+						displayName: 'User Sentiment',
+						name: 'userSentiment',
+						type: 'options',
+						default: 'positive',
+						options: [
+							{
+								name: 'Negative',
+								value: 'negative',
+							},
+							{
+								name: 'Neutral',
+								value: 'neutral',
+							},
+							{
+								name: 'Positive',
+								value: 'positive',
+							},
+							{
+								name: 'Random',
+								value: 'random',
+							},
+						],
+						description: 'Sentiment of the user in the evaluation of the call',
+					},
+				],
+			},
+			{
+				displayName: 'Messages',
+				name: 'messages',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['webhook'],
+						operation: ['formatTranscript'],
+					},
+				},
+				default: '={{ $json.messages }}',
+				description: 'The call messages to render, as output by Handle Event or Call Get',
+				required: true,
+			},
+			{
+				displayName: 'Format',
+				name: 'transcriptFormat',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['webhook'],
+						operation: ['formatTranscript'],
+					},
+				},
+				options: [
+					{
+						name: 'CSV',
+						value: 'csv',
+					},
+					{
+						name: 'JSON Lines',
+						value: 'jsonl',
+					},
+					{
+						name: 'Markdown',
+						value: 'markdown',
+					},
+					{
+						name: 'Plain Text',
+						value: 'text',
+					},
+					{
+						name: 'SRT Subtitles',
+						value: 'srt',
+					},
+					{
+						name: 'WebVTT Subtitles',
+						value: 'vtt',
+					},
+				],
+				default: 'text',
+				description: 'The format to render the transcript in',
 			},
 			{
-				displayName: 'Agent IDs',
-				name: 'agentIds',
+				displayName: 'Output',
+				name: 'transcriptOutput',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['webhook'],
+						operation: ['formatTranscript'],
+					},
+				},
+				options: [
+					{
+						name: 'String Field',
+						value: 'string',
+						description: 'Add the transcript to a field of the item',
+					},
+					{
+						name: 'Binary File',
+						value: 'binary',
+						description: 'Attach the transcript to the item as a file',
+					},
+				],
+				default: 'string',
+				description: 'How to output the rendered transcript',
+			},
+			{
+				displayName: 'Output Field',
+				name: 'outputField',
 				type: 'string',
 				displayOptions: {
 					show: {
 						resource: ['webhook'],
-						operation: ['handleEvent'],
-						filterByAgentIds: [true],
+						operation: ['formatTranscript'],
+						transcriptOutput: ['string'],
 					},
 				},
-				default: '',
-				placeholder: 'agent_123,agent_456',
-				description: 'Comma-separated list of agent IDs to filter by',
-				hint: 'Enter multiple agent IDs separated by commas',
+				default: 'transcript',
+				description: 'Name of the field to write the transcript to',
+			},
+			{
+				displayName: 'Put Output File in Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['webhook'],
+						operation: ['formatTranscript'],
+						transcriptOutput: ['binary'],
+					},
+				},
+				default: 'data',
+				hint: 'The name of the output binary field to put the file in',
 			},
+			{
+				displayName: 'Options',
+				name: 'transcriptOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['webhook'],
+						operation: ['formatTranscript'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Agent Label',
+						name: 'agentLabel',
+						type: 'string',
+						default: 'Agent',
+						description: 'Speaker label used for messages sent by the agent',
+					},
+					{
+						displayName: 'File Name',
+						name: 'fileName',
+						type: 'string',
+						default: '',
+						description: 'Name of the output file. Defaults to the call ID with the extension of the format.',
+					},
+					{
+						displayName: 'Include Timestamps',
+						name: 'includeTimestamps',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to prefix text and Markdown lines with the time since the first message',
+					},
+					{
+						displayName: 'User Label',
+						name: 'userLabel',
+						type: 'string',
+						default: 'User',
+						description: 'Speaker label used for messages sent by the user',
+					},
+				],
+			},
+			...withDisplayOptions([...eventProcessingProperties, ...filterRuleProperties], {
+				resource: ['webhook'],
+				operation: ['handleEvent'],
+			}),
 			{
 				displayName: 'Webhook Data',
 				name: 'webhookData',
@@ -726,6 +2329,20 @@ export class BeyondPresence implements INodeType {
 				description: 'The webhook payload data. Use $JSON.body for n8n webhooks that contain data in the body property.',
 				required: true,
 			},
+			{
+				displayName: 'Simplify',
+				name: 'simplify',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['webhook'],
+						operation: ['handleEvent'],
+					},
+				},
+				description: 'Whether to return a simplified version of the response instead of the raw data',
+				hint: 'Returns the IDs, user, call summary and details, message or tool call of the event, without the full transcript and analytics',
+			},
 		],
 	};
 }
\ No newline at end of file
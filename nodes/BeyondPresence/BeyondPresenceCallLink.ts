@@ -0,0 +1,115 @@
+import { ApplicationError } from 'n8n-workflow';
+import QRCode from 'qrcode';
+
+/**
+ * Supported QR code image formats
+ */
+export type QrCodeFormat = 'png' | 'svg';
+
+/**
+ * Options controlling how the embed snippet of a call link is rendered
+ */
+export interface EmbedOptions {
+	width: string;
+	height: string;
+	permissions: string[];
+}
+
+export const qrCodeFileTypes: Record<QrCodeFormat, { extension: string; mimeType: string }> = {
+	png: { extension: 'png', mimeType: 'image/png' },
+	svg: { extension: 'svg', mimeType: 'image/svg+xml' },
+};
+
+export const callLinkHelpers = {
+	/**
+	 * Adds query parameters to a call link
+	 * @param {string} callLink - The call link of the agent
+	 * @param {Record<string, string>} queryParameters - The query parameters to set, such as a prefilled user name or UTM tags
+	 * @returns {string} The call link with the query parameters
+	 * @throws {ApplicationError} If the call link is not a valid URL
+	 */
+	buildCallLink(callLink: string, queryParameters: Record<string, string>): string {
+		let url: URL;
+
+		try {
+			url = new URL(callLink);
+		} catch (error) {
+			throw new ApplicationError(`Invalid call link: ${callLink}`);
+		}
+
+		for (const [name, value] of Object.entries(queryParameters)) {
+			if (name) {
+				url.searchParams.set(name, value);
+			}
+		}
+
+		return url.toString();
+	},
+
+	/**
+	 * Resolves the iframe permissions, adding the camera for agents with webcam vision
+	 * @param {string[]} permissions - The permissions selected by the user
+	 * @param {unknown} capabilities - The capabilities of the agent
+	 * @returns {string[]} The permissions of the iframe
+	 */
+	getEmbedPermissions(permissions: string[], capabilities: unknown): string[] {
+		const resolved = new Set(permissions);
+
+		if (Array.isArray(capabilities) && capabilities.includes('webcam_vision')) {
+			resolved.add('camera');
+			resolved.add('microphone');
+		}
+
+		return [...resolved];
+	},
+
+	/**
+	 * Escapes a value for an HTML attribute
+	 * @param {string} value - The attribute value
+	 * @returns {string} The escaped value
+	 */
+	escapeHtmlAttribute(value: string): string {
+		return value
+			.replace(/&/g, '&amp;')
+			.replace(/"/g, '&quot;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;');
+	},
+
+	/**
+	 * Renders an iframe snippet that embeds the call link in a web page
+	 * @param {string} callLink - The call link to embed
+	 * @param {EmbedOptions} options - The size and permissions of the iframe
+	 * @returns {string} The iframe HTML snippet
+	 */
+	buildEmbedHtml(callLink: string, options: EmbedOptions): string {
+		const attributes = [
+			`src="${this.escapeHtmlAttribute(callLink)}"`,
+			`width="${this.escapeHtmlAttribute(options.width)}"`,
+			`height="${this.escapeHtmlAttribute(options.height)}"`,
+			`allow="${options.permissions.map((permission) => this.escapeHtmlAttribute(permission)).join('; ')}"`,
+			'frameborder="0"',
+		];
+
+		if (options.permissions.includes('fullscreen')) {
+			attributes.push('allowfullscreen');
+		}
+
+		return `<iframe ${attributes.join(' ')}></iframe>`;
+	},
+
+	/**
+	 * Renders the call link as a QR code image
+	 * @param {string} callLink - The call link to encode
+	 * @param {QrCodeFormat} format - The image format
+	 * @param {number} size - The width and height of the image in pixels
+	 * @returns {Promise<Buffer>} The image data
+	 */
+	async renderQrCode(callLink: string, format: QrCodeFormat, size: number): Promise<Buffer> {
+		if (format === 'svg') {
+			return Buffer.from(await QRCode.toString(callLink, { type: 'svg', width: size, margin: 2 }), 'utf8');
+		}
+
+		return await QRCode.toBuffer(callLink, { type: 'png', width: size, margin: 2 });
+	},
+};
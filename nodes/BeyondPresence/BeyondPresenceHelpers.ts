@@ -0,0 +1,1403 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import FormData from 'form-data';
+import {
+	ApplicationError,
+	ICredentialDataDecryptedObject,
+	ICredentialTestFunctions,
+	ICredentialsDecrypted,
+	IDataObject,
+	IExecuteFunctions,
+	IHttpRequestMethods,
+	IHttpRequestOptions,
+	ILoadOptionsFunctions,
+	INode,
+	INodeCredentialTestResult,
+	IPollFunctions,
+	JsonObject,
+	NodeApiError,
+	sleep,
+} from 'n8n-workflow';
+import {
+	AgentTool,
+	ApiCall,
+	BaseWebhookData,
+	BufferedSession,
+	CallAnalytics,
+	CallEndedEvent,
+	DeduplicationStore,
+	EphemeralAgentStore,
+	FieldSchema,
+	FilterRule,
+	MessageEvent,
+	SessionStore,
+	ToolCallEvent,
+	WebhookMessage,
+	webhookEventSchemas,
+} from './BeyondPresenceTypes';
+import { sandboxHelpers } from './BeyondPresenceSandbox';
+
+const DEFAULT_API_BASE_URL = 'https://api.bey.dev/v1';
+const DEFAULT_CALL_LINK_BASE_URL = 'https://bey.chat';
+
+const MAX_BUFFERED_SESSIONS = 500;
+const MAX_FINGERPRINTS = 1000;
+const MAX_ENDED_CALLS = 1000;
+const ENDED_CALL_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const MAX_RETRY_DELAY_MS = 30000;
+const IDEMPOTENT_METHODS: IHttpRequestMethods[] = ['GET', 'HEAD', 'PUT', 'DELETE'];
+// Errors raised before the request reached the API, so retrying cannot apply it twice
+const UNSENT_REQUEST_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+const AGENT_UPDATABLE_FIELDS = [
+	'system_prompt',
+	'greeting',
+	'language',
+	'max_session_length_minutes',
+	'capabilities',
+	'tools',
+];
+
+type BeyondPresenceFunctions = IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions;
+
+export const beyondPresenceHelpers = {
+	/**
+	 * Extracts the agent ID from different possible locations in the webhook data
+	 * @param {BaseWebhookData} data - The webhook data to extract the agent ID from
+	 * @returns {string} The agent ID or an empty string if not found
+	 */
+	getAgentId(data: BaseWebhookData): string {
+		return data.call_data?.agentId || data.agentId || '';
+	},
+	
+	/**
+	 * Parses and normalizes duration minutes from the webhook data
+	 * @param {string | number | undefined} duration - The duration value to parse
+	 * @returns {number} The normalized duration in minutes as a number
+	 */
+	parseDurationMinutes(duration: string | number | undefined): number {
+		if (typeof duration === 'string') {
+			return parseInt(duration);
+		}
+		return duration || 0;
+	},
+	
+	/**
+	 * Parses and normalizes message count from the webhook data
+	 * @param {string | number | undefined} count - The message count value to parse
+	 * @param {WebhookMessage[] | undefined} messages - The messages array to use as fallback for count
+	 * @returns {number} The normalized message count as a number
+	 */
+	parseMessageCount(count: string | number | undefined, messages: WebhookMessage[] | undefined): number {
+		if (typeof count === 'string') {
+			return parseInt(count);
+		}
+		return count || (messages?.length || 0);
+	},
+
+	/**
+	 * Parses and validates webhook data from raw input
+	 * @param {string | object} webhookDataRaw - The raw webhook data to parse
+	 * @returns {BaseWebhookData} The parsed webhook data
+	 * @throws {ApplicationError} If the webhook data is invalid
+	 */
+	parseWebhookData(webhookDataRaw: string | object): BaseWebhookData {
+		let webhookData: BaseWebhookData;
+		
+		try {
+			if (typeof webhookDataRaw === 'string') {
+				try {
+					webhookData = JSON.parse(webhookDataRaw) as BaseWebhookData;
+				} catch (parseError) {
+					throw new ApplicationError(`Invalid webhook JSON: ${(parseError as Error).message}`);
+				}
+			} else {
+				webhookData = webhookDataRaw as BaseWebhookData;
+			}
+			
+			if (!webhookData || typeof webhookData !== 'object') {
+				throw new ApplicationError('Invalid webhook data: Must be a valid object');
+			}
+			
+			return webhookData;
+		} catch (error) {
+			throw new ApplicationError(`Invalid webhook data: ${(error as Error).message}`);
+		}
+	},
+
+	/**
+	 * Computes conversation analytics from the messages of a call
+	 * @param {WebhookMessage[]} messages - The messages of the call
+	 * @returns {CallAnalytics} Per-speaker talk statistics, response latencies and silence gaps
+	 */
+	computeCallAnalytics(messages: WebhookMessage[]): CallAnalytics {
+		const round = (value: number) => Math.round(value * 100) / 100;
+		const speakerOf = (msg: WebhookMessage) => ((msg.sender || '').toLowerCase() === 'user' ? 'user' : 'agent');
+		const stats = {
+			agent: { messages: 0, turns: 0, words: 0 },
+			user: { messages: 0, turns: 0, words: 0 },
+		};
+		const latencies: number[] = [];
+		let longestSilence: number | null = null;
+		
+		messages.forEach((msg, index) => {
+			const speaker = speakerOf(msg);
+			const previous = index > 0 ? messages[index - 1] : undefined;
+			
+			stats[speaker].messages++;
+			stats[speaker].words += (msg.message || '').split(/\s+/).filter(Boolean).length;
+			
+			if (!previous || speakerOf(previous) !== speaker) {
+				stats[speaker].turns++;
+			}
+			
+			if (previous) {
+				const gapSeconds = (Date.parse(msg.sent_at) - Date.parse(previous.sent_at)) / 1000;
+				
+				if (!isNaN(gapSeconds) && gapSeconds >= 0) {
+					longestSilence = Math.max(longestSilence ?? 0, gapSeconds);
+					
+					if (speaker === 'agent' && speakerOf(previous) === 'user') {
+						latencies.push(gapSeconds);
+					}
+				}
+			}
+		});
+		
+		return {
+			...stats,
+			agent_talk_ratio: stats.user.words > 0 ? round(stats.agent.words / stats.user.words) : null,
+			avg_agent_response_latency_seconds: latencies.length > 0
+				? round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+				: null,
+			max_agent_response_latency_seconds: latencies.length > 0 ? round(Math.max(...latencies)) : null,
+			longest_silence_seconds: longestSilence === null ? null : round(longestSilence),
+			first_speaker: messages.length > 0 ? speakerOf(messages[0]) : '',
+			last_speaker: messages.length > 0 ? speakerOf(messages[messages.length - 1]) : '',
+		};
+	},
+
+	/**
+	 * Checks a value against a field schema
+	 * @param {unknown} value - The value to check
+	 * @param {FieldSchema} schema - The schema of the value
+	 * @param {string} path - The path of the value, used in error messages
+	 * @returns {string[]} One message per missing or wrongly typed field
+	 */
+	validateField(value: unknown, schema: FieldSchema, path: string): string[] {
+		if (value === undefined || value === null) {
+			return schema.required ? [`${path}: required`] : [];
+		}
+		
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		const actualType = Array.isArray(value) ? 'array' : typeof value;
+		if (!(types as string[]).includes(actualType)) {
+			return [`${path}: expected ${types.join(' or ')}`];
+		}
+		
+		if (schema.numeric && actualType === 'string' && ((value as string).trim() === '' || isNaN(Number(value)))) {
+			return [`${path}: expected number`];
+		}
+		
+		const errors: string[] = [];
+		
+		if (actualType === 'object' && schema.properties) {
+			for (const [key, propertySchema] of Object.entries(schema.properties)) {
+				errors.push(
+					...this.validateField(
+						(value as Record<string, unknown>)[key],
+						propertySchema,
+						path ? `${path}.${key}` : key,
+					),
+				);
+			}
+		}
+		
+		if (actualType === 'array' && schema.items) {
+			(value as unknown[]).forEach((item, index) => {
+				errors.push(...this.validateField(item, schema.items as FieldSchema, `${path}[${index}]`));
+			});
+		}
+		
+		return errors;
+	},
+
+	/**
+	 * Validates webhook data against the schema of its event type
+	 * @param {BaseWebhookData} webhookData - The parsed webhook data
+	 * @param {string} mode - 'strict' to throw on invalid payloads, 'lenient' to return warnings
+	 * @returns {string[]} The validation warnings, empty if the payload is valid
+	 * @throws {ApplicationError} In strict mode, if the payload does not match its schema
+	 */
+	validateWebhookData(webhookData: BaseWebhookData, mode: string): string[] {
+		const schema = webhookData.event_type ? webhookEventSchemas[webhookData.event_type] : undefined;
+		const errors = schema
+			? this.validateField(webhookData, schema, '')
+			: webhookData.event_type ? [] : ['event_type: required'];
+		
+		if (mode === 'strict' && errors.length > 0) {
+			throw new ApplicationError(
+				`Invalid ${webhookData.event_type || 'webhook'} event: ${errors.join('; ')}`,
+				{ extra: { validation_errors: errors } },
+			);
+		}
+		
+		return errors;
+	},
+
+	/**
+	 * Processes a 'call_ended' event and converts it to a structured format
+	 * @param {CallEndedEvent} callEndedEvent - The call ended event to process
+	 * @returns {IDataObject} Structured data with call details, user info, messages, summary and analytics
+	 */
+	processCallEndedEvent(callEndedEvent: CallEndedEvent): IDataObject {
+		const durationMinutes = this.parseDurationMinutes(callEndedEvent.evaluation?.duration_minutes);
+		const messageCount = this.parseMessageCount(callEndedEvent.evaluation?.messages_count, callEndedEvent.messages);
+		
+		return {
+			call_id: callEndedEvent.call_id || '',
+			agent_id: this.getAgentId(callEndedEvent),
+			
+			call_details: {
+				duration_minutes: durationMinutes,
+				message_count: messageCount,
+				topic: callEndedEvent.evaluation?.topic || 'Unknown',
+				user_sentiment: callEndedEvent.evaluation?.user_sentiment || 'Unknown',
+			},
+			
+			user: {
+				name: callEndedEvent.user_name || 
+					(callEndedEvent.call_data && callEndedEvent.call_data.userName) || 
+					'Unknown',
+			},
+			
+			call_summary: {
+				duration_minutes: durationMinutes,
+				message_count: messageCount,
+				first_message: callEndedEvent.messages && callEndedEvent.messages.length > 0 
+					? callEndedEvent.messages[0].message 
+					: '',
+				last_message: callEndedEvent.messages && callEndedEvent.messages.length > 0 
+					? callEndedEvent.messages[callEndedEvent.messages.length - 1].message 
+					: '',
+				user_sentiment: callEndedEvent.evaluation?.user_sentiment || 'Unknown',
+			},
+			
+			analytics: this.computeCallAnalytics(callEndedEvent.messages || []),
+			
+			messages: (callEndedEvent.messages || []).map(msg => ({
+				sender: msg.sender || '',
+				message: msg.message || '',
+				timestamp: msg.sent_at || '',
+			})),
+			
+			event_type: 'call_ended',
+		};
+	},
+
+	/**
+	 * Processes a 'message' event and converts it to a structured format
+	 * @param {MessageEvent} messageEvent - The message event to process
+	 * @returns {IDataObject} Structured data with message details and call context
+	 */
+	processMessageEvent(messageEvent: MessageEvent): IDataObject {
+		return {
+			call_id: messageEvent.call_id || '',
+			agent_id: this.getAgentId(messageEvent),
+			
+			user: {
+				name: messageEvent.call_data?.userName || 'Unknown',
+			},
+			
+			message: {
+				sender: messageEvent.message?.sender || '',
+				content: messageEvent.message?.message || '',
+				timestamp: messageEvent.message?.sent_at || '',
+			},
+			
+			event_type: 'message',
+		};
+	},
+
+	/**
+	 * Processes a 'tool_call' event and converts it to a structured format
+	 * @param {ToolCallEvent} toolCallEvent - The tool call event to process
+	 * @returns {IDataObject} Structured data with the tool name, its arguments and call context
+	 * @throws {ApplicationError} If the arguments are not valid JSON
+	 */
+	processToolCallEvent(toolCallEvent: ToolCallEvent): IDataObject {
+		let toolArguments = toolCallEvent.arguments ?? {};
+		
+		if (typeof toolArguments === 'string') {
+			try {
+				toolArguments = JSON.parse(toolArguments) as Record<string, unknown>;
+			} catch (error) {
+				throw new ApplicationError(`Invalid tool call arguments JSON: ${(error as Error).message}`);
+			}
+		}
+		
+		return {
+			call_id: toolCallEvent.call_id || '',
+			agent_id: this.getAgentId(toolCallEvent),
+			
+			user: {
+				name: toolCallEvent.call_data?.userName || 'Unknown',
+			},
+			
+			tool_call_id: toolCallEvent.tool_call_id || '',
+			tool_name: toolCallEvent.tool_name || '',
+			arguments: toolArguments as IDataObject,
+			
+			event_type: 'tool_call',
+		};
+	},
+
+	/**
+	 * Converts the tools of the node parameters into the tools of the agent API
+	 * @param {IDataObject[]} tools - The tools with name, description and JSON schema parameters
+	 * @returns {AgentTool[]} The tools to send to the API
+	 * @throws {ApplicationError} If a tool has no name or its parameters are not a JSON schema object
+	 */
+	parseAgentTools(tools: IDataObject[]): AgentTool[] {
+		return tools.map((tool) => {
+			const name = String(tool.name || '').trim();
+			let parameters: unknown = tool.parameters ?? {};
+			
+			if (!name) {
+				throw new ApplicationError('Every tool needs a name');
+			}
+			
+			if (typeof parameters === 'string') {
+				try {
+					parameters = JSON.parse(parameters || '{}');
+				} catch (error) {
+					throw new ApplicationError(`Invalid parameters JSON schema of tool "${name}": ${(error as Error).message}`);
+				}
+			}
+			
+			if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) {
+				throw new ApplicationError(`The parameters of tool "${name}" must be a JSON schema object`);
+			}
+			
+			return {
+				name,
+				description: String(tool.description || ''),
+				parameters: parameters as Record<string, unknown>,
+			};
+		});
+	},
+
+	/**
+	 * Builds a 'call_ended' event from a call and its messages fetched from the API
+	 * @param {ApiCall} call - The call returned by the calls API
+	 * @param {WebhookMessage[]} messages - The messages of the call
+	 * @returns {CallEndedEvent} The equivalent call ended event, ready for processCallEndedEvent
+	 */
+	buildCallEndedEvent(call: ApiCall, messages: WebhookMessage[]): CallEndedEvent {
+		let durationMinutes = call.evaluation?.duration_minutes;
+		
+		if (durationMinutes === undefined && call.started_at && call.ended_at) {
+			const durationMs = new Date(call.ended_at).getTime() - new Date(call.started_at).getTime();
+			durationMinutes = isNaN(durationMs) ? 0 : Math.round(durationMs / 60000);
+		}
+		
+		return {
+			event_type: 'call_ended',
+			call_id: call.id,
+			evaluation: {
+				...call.evaluation,
+				duration_minutes: durationMinutes || 0,
+			},
+			messages,
+			user_name: call.user_name,
+			agentId: call.agent_id,
+			call_data: {
+				userName: call.user_name,
+				agentId: call.agent_id,
+				startedAt: call.started_at,
+				endedAt: call.ended_at || undefined,
+			},
+		};
+	},
+
+	/**
+	 * Splits a comma-separated list of agent IDs used for filtering events
+	 * @param {string} agentIdsString - The comma-separated agent IDs
+	 * @returns {string[]} The trimmed agent IDs
+	 * @throws {ApplicationError} If no agent IDs were provided
+	 */
+	parseAgentIds(agentIdsString: string): string[] {
+		if (!agentIdsString || agentIdsString.trim() === '') {
+			throw new ApplicationError('Agent IDs required when filtering is enabled');
+		}
+		return agentIdsString.split(',').map(id => id.trim());
+	},
+
+	/**
+	 * Verifies the HMAC-SHA256 signature and timestamp of a webhook request
+	 * @param {string} rawBody - The raw request body the signature was computed over
+	 * @param {string | undefined} signature - The hex signature, optionally prefixed with 'sha256='
+	 * @param {string | undefined} timestamp - The Unix timestamp in seconds the request was signed at
+	 * @param {string} signingSecret - The shared signing secret
+	 * @param {number} toleranceSeconds - The maximum accepted request age, 0 to skip the check
+	 * @throws {ApplicationError} If no signing secret is set, or the signature is missing, invalid or the request is too old
+	 */
+	verifyWebhookSignature(
+		rawBody: string,
+		signature: string | undefined,
+		timestamp: string | undefined,
+		signingSecret: string,
+		toleranceSeconds: number,
+	): void {
+		// An empty secret would let anyone compute a valid signature
+		if (!signingSecret) {
+			throw new ApplicationError('No signing secret is configured in the webhook credentials');
+		}
+		
+		if (!signature || !timestamp) {
+			throw new ApplicationError('Missing webhook signature or timestamp');
+		}
+		
+		const signedAt = parseInt(timestamp);
+		if (isNaN(signedAt)) {
+			throw new ApplicationError('Invalid webhook timestamp');
+		}
+		
+		if (toleranceSeconds > 0 && Math.abs(Date.now() / 1000 - signedAt) > toleranceSeconds) {
+			throw new ApplicationError('Webhook timestamp is outside the tolerance window');
+		}
+		
+		const expected = createHmac('sha256', signingSecret).update(`${timestamp}.${rawBody}`).digest();
+		const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+		
+		if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+			throw new ApplicationError('Invalid webhook signature');
+		}
+	},
+
+	/**
+	 * Checks whether webhook data passes the event type and agent ID filters
+	 * @param {BaseWebhookData} webhookData - The parsed webhook data
+	 * @param {string} eventType - The event type to accept, or 'all'
+	 * @param {string[]} agentIds - The agent IDs to accept, empty to accept all
+	 * @returns {boolean} True if the event should be processed
+	 */
+	matchesEventFilters(webhookData: BaseWebhookData, eventType: string, agentIds: string[]): boolean {
+		if (eventType !== 'all' && webhookData.event_type !== eventType) {
+			return false;
+		}
+		
+		if (agentIds.length > 0) {
+			const extractedAgentId = this.getAgentId(webhookData);
+			if (!extractedAgentId || !agentIds.includes(extractedAgentId)) {
+				return false;
+			}
+		}
+		
+		return true;
+	},
+
+	/**
+	 * Reads the values a filter rule field refers to from processed webhook data
+	 * @param {IDataObject} data - The processed webhook data
+	 * @param {string} field - The filter rule field
+	 * @returns {unknown[]} The values of the field, empty if the event has none
+	 */
+	getFilterFieldValues(data: IDataObject, field: string): unknown[] {
+		const callDetails = (data.call_details || {}) as IDataObject;
+		const message = data.message as IDataObject | undefined;
+		const messages = (data.messages || []) as IDataObject[];
+		
+		switch (field) {
+			case 'userSentiment':
+				return [callDetails.user_sentiment];
+			case 'topic':
+				return [callDetails.topic];
+			case 'durationMinutes':
+				return [callDetails.duration_minutes];
+			case 'messageCount':
+				return [callDetails.message_count];
+			case 'userName':
+				return [(data.user as IDataObject | undefined)?.name];
+			case 'messageSender':
+				return message ? [message.sender] : messages.map((msg) => msg.sender);
+			case 'messageContent':
+				return message ? [message.content] : messages.map((msg) => msg.message);
+			case 'transcript':
+				return message ? [message.content] : [messages.map((msg) => msg.message).join('\n')];
+			default:
+				throw new ApplicationError(`Unknown filter field: ${field}`);
+		}
+	},
+
+	/**
+	 * Checks a single value against a filter rule
+	 * @param {unknown} value - The value to check
+	 * @param {FilterRule} rule - The filter rule
+	 * @returns {boolean} True if the value matches the rule
+	 * @throws {ApplicationError} If the operator is unknown, the regex is invalid or a numeric operator has no numeric value
+	 */
+	matchesFilterValue(value: unknown, rule: FilterRule): boolean {
+		const isNumeric = rule.operator === 'gte' || rule.operator === 'lte';
+		const bound = String(rule.value ?? '').trim();
+		
+		if (isNumeric && (bound === '' || isNaN(Number(bound)))) {
+			throw new ApplicationError(`Filter value of operator "${rule.operator}" must be a number, got "${rule.value ?? ''}"`);
+		}
+		
+		if (value === undefined || value === null) {
+			return false;
+		}
+		
+		const text = String(value).toLowerCase();
+		const expected = String(rule.value ?? '').toLowerCase();
+		
+		switch (rule.operator) {
+			case 'equals':
+				return text === expected;
+			case 'notEquals':
+				return text !== expected;
+			case 'contains':
+				return text.includes(expected);
+			case 'notContains':
+				return !text.includes(expected);
+			case 'regex':
+				try {
+					return new RegExp(rule.value, 'i').test(String(value));
+				} catch (error) {
+					throw new ApplicationError(`Invalid filter regex "${rule.value}": ${(error as Error).message}`);
+				}
+			case 'gte':
+			case 'lte': {
+				const number = typeof value === 'number' ? value : String(value).trim() === '' ? NaN : Number(value);
+				
+				if (isNaN(number)) {
+					return false;
+				}
+				
+				return rule.operator === 'gte' ? number >= Number(bound) : number <= Number(bound);
+			}
+			default:
+				throw new ApplicationError(`Unknown filter operator: ${rule.operator}`);
+		}
+	},
+
+	/**
+	 * Checks whether processed webhook data matches a set of filter rules
+	 * @param {IDataObject} data - The processed webhook data
+	 * @param {FilterRule[]} rules - The filter rules, a field matches if any of its values matches, or all of them for negated operators
+	 * @param {string} combine - 'and' if all rules must match, 'or' if any rule must match
+	 * @returns {boolean} True if the data passes the rules, always true without rules
+	 */
+	matchesFilterRules(data: IDataObject, rules: FilterRule[], combine: string): boolean {
+		if (rules.length === 0) {
+			return true;
+		}
+		
+		// Negated operators must hold for every value, e.g. no message of the call contains the text
+		const matches = (rule: FilterRule) => {
+			const values = this.getFilterFieldValues(data, rule.field);
+			const matchesValue = (value: unknown) => this.matchesFilterValue(value, rule);
+			
+			return rule.operator === 'notEquals' || rule.operator === 'notContains'
+				? values.every(matchesValue)
+				: values.some(matchesValue);
+		};
+		
+		return combine === 'or' ? rules.some(matches) : rules.every(matches);
+	},
+
+	/**
+	 * Returns the output an event is routed to when routing by event type
+	 * @param {string | undefined} eventType - The event type of the processed data
+	 * @returns {number} 0 for call_ended and timed-out sessions, 1 for message, 2 for unknown events, 4 for tool_call
+	 */
+	getEventOutputIndex(eventType: string | undefined): number {
+		if (eventType === 'call_ended' || eventType === 'session_timeout') {
+			return 0;
+		}
+		if (eventType === 'tool_call') {
+			return 4;
+		}
+		return eventType === 'message' ? 1 : 2;
+	},
+
+	/**
+	 * Converts webhook data to the structured format of its event type
+	 * @param {BaseWebhookData} webhookData - The parsed webhook data
+	 * @returns {IDataObject} Structured data for the event
+	 */
+	processWebhookEvent(webhookData: BaseWebhookData): IDataObject {
+		if (webhookData.event_type === 'call_ended') {
+			return this.processCallEndedEvent(webhookData as CallEndedEvent);
+		}
+		
+		if (webhookData.event_type === 'message') {
+			return this.processMessageEvent(webhookData as MessageEvent);
+		}
+		
+		if (webhookData.event_type === 'tool_call') {
+			return this.processToolCallEvent(webhookData as ToolCallEvent);
+		}
+		
+		return {
+			event_type: webhookData.event_type || 'unknown',
+			call_id: webhookData.call_id || '',
+			agent_id: this.getAgentId(webhookData),
+			payload: webhookData as IDataObject,
+		};
+	},
+
+	/**
+	 * Normalizes a configured base URL, falling back to a default and removing trailing slashes
+	 * @param {unknown} baseUrl - The configured base URL
+	 * @param {string} fallback - The URL to use when none is configured
+	 * @returns {string} The base URL without trailing slashes
+	 */
+	normalizeBaseUrl(baseUrl: unknown, fallback: string): string {
+		const url = typeof baseUrl === 'string' && baseUrl.trim() !== '' ? baseUrl.trim() : fallback;
+		return url.replace(/\/+$/, '');
+	},
+
+	/**
+	 * Returns the call link base URL configured in the credentials
+	 * @param {ICredentialDataDecryptedObject} credentials - The Beyond Presence API credentials
+	 * @returns {string} The call link base URL without trailing slashes
+	 */
+	getCallLinkBaseUrl(credentials: ICredentialDataDecryptedObject): string {
+		return this.normalizeBaseUrl(credentials.callLinkBaseUrl, DEFAULT_CALL_LINK_BASE_URL);
+	},
+
+	/**
+	 * Parses a proxy URL into the proxy configuration used by HTTP requests
+	 * @param {string} proxyUrl - The proxy URL, optionally with credentials
+	 * @returns {IHttpRequestOptions['proxy']} The proxy configuration
+	 * @throws {ApplicationError} If the proxy URL is invalid
+	 */
+	parseProxyUrl(proxyUrl: string): IHttpRequestOptions['proxy'] {
+		let url: URL;
+		
+		try {
+			url = new URL(proxyUrl);
+		} catch (error) {
+			throw new ApplicationError(`Invalid proxy URL: ${proxyUrl}`);
+		}
+		
+		const protocol = url.protocol.replace(/:$/, '');
+		
+		return {
+			protocol,
+			host: url.hostname,
+			port: url.port ? parseInt(url.port) : protocol === 'https' ? 443 : 80,
+			...(url.username
+				? {
+					auth: {
+						username: decodeURIComponent(url.username),
+						password: decodeURIComponent(url.password),
+					},
+				}
+				: {}),
+		};
+	},
+
+	/**
+	 * Serializes a value to JSON with object keys in sorted order
+	 * @param {unknown} value - The value to serialize
+	 * @returns {string} The JSON, identical for objects that only differ in key order
+	 */
+	stableStringify(value: unknown): string {
+		if (Array.isArray(value)) {
+			return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+		}
+		
+		if (value !== null && typeof value === 'object') {
+			const entries = Object.keys(value)
+				.sort()
+				.filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+				.map((key) => `${JSON.stringify(key)}:${this.stableStringify((value as Record<string, unknown>)[key])}`);
+			return `{${entries.join(',')}}`;
+		}
+		
+		return JSON.stringify(value) ?? 'null';
+	},
+
+	/**
+	 * Builds a fingerprint that identifies a webhook event across delivery retries
+	 * @param {BaseWebhookData} webhookData - The parsed webhook data
+	 * @returns {string} The fingerprint of the event, a hash of the payload if the event has no ID of its own
+	 */
+	getEventFingerprint(webhookData: BaseWebhookData): string {
+		const hash = (value: unknown) => createHash('sha256').update(this.stableStringify(value)).digest('hex');
+		const callId = webhookData.call_id || '';
+		const message = webhookData.message as WebhookMessage | undefined;
+		
+		// A call ends once, a tool call and a message are identified by their own ID or sender, time and content
+		if (callId && webhookData.event_type === 'call_ended') {
+			return [callId, 'call_ended'].join(':');
+		}
+		
+		if (callId && webhookData.event_type === 'tool_call' && webhookData.tool_call_id) {
+			return [callId, 'tool_call', webhookData.tool_call_id].join(':');
+		}
+		
+		if (callId && webhookData.event_type === 'message' && message?.sent_at) {
+			return [callId, 'message', message.sent_at, message.sender || '', hash(message.message ?? '')].join(':');
+		}
+		
+		return hash(webhookData);
+	},
+
+	/**
+	 * Checks whether an event was already handled and records it otherwise
+	 * @param {DeduplicationStore} store - The fingerprint store in the workflow static data
+	 * @param {string} fingerprint - The fingerprint of the event
+	 * @param {number} ttlMs - How long fingerprints are remembered in milliseconds
+	 * @param {number} now - The current time in milliseconds
+	 * @returns {boolean} True if the event is a duplicate delivery
+	 */
+	isDuplicateEvent(store: DeduplicationStore, fingerprint: string, ttlMs: number, now: number): boolean {
+		store.fingerprints = store.fingerprints || {};
+		const fingerprints = store.fingerprints;
+		
+		for (const [key, seenAt] of Object.entries(fingerprints)) {
+			if (now - seenAt > ttlMs) {
+				delete fingerprints[key];
+			}
+		}
+		
+		if (fingerprint in fingerprints) {
+			return true;
+		}
+		
+		fingerprints[fingerprint] = now;
+		
+		const keys = Object.keys(fingerprints);
+		if (keys.length > MAX_FINGERPRINTS) {
+			keys
+				.sort((a, b) => fingerprints[a] - fingerprints[b])
+				.slice(0, keys.length - MAX_FINGERPRINTS)
+				.forEach((key) => delete fingerprints[key]);
+		}
+		
+		return false;
+	},
+
+	/**
+	 * Records an agent as ephemeral so it is deleted once its TTL has passed
+	 * @param {EphemeralAgentStore} store - The ephemeral agent store in the workflow static data
+	 * @param {string} agentId - The ID of the created agent
+	 * @param {number} ttlMs - How long the agent is kept in milliseconds
+	 * @param {boolean} deleteAfterCall - Whether the agent is deleted as soon as one of its calls ended
+	 * @param {number} now - The current time in milliseconds
+	 */
+	trackEphemeralAgent(
+		store: EphemeralAgentStore,
+		agentId: string,
+		ttlMs: number,
+		deleteAfterCall: boolean,
+		now: number,
+	): void {
+		store.ephemeralAgents = {
+			...store.ephemeralAgents,
+			[agentId]: { expires_at: now + ttlMs, delete_after_call: deleteAfterCall },
+		};
+	},
+
+	/**
+	 * Builds the assembled conversation of a buffered session
+	 * @param {BufferedSession} session - The buffered session
+	 * @param {CallEndedEvent} [callEndedEvent] - The matching call ended event, if it arrived
+	 * @returns {IDataObject} The processed call ended data with a session block and the validation warnings of its events
+	 */
+	assembleSession(session: BufferedSession, callEndedEvent?: CallEndedEvent): IDataObject {
+		const assembled = callEndedEvent
+			? this.assembleEndedSession(session, callEndedEvent)
+			: this.assembleTimedOutSession(session);
+		
+		if (session.validation_warnings?.length) {
+			assembled.validation_warnings = session.validation_warnings;
+		}
+		
+		return assembled;
+	},
+
+	/**
+	 * Builds the conversation of a buffered session from its call ended event
+	 * @param {BufferedSession} session - The buffered session
+	 * @param {CallEndedEvent} callEndedEvent - The call ended event of the session
+	 * @returns {IDataObject} The processed call ended data with a session block
+	 */
+	assembleEndedSession(session: BufferedSession, callEndedEvent: CallEndedEvent): IDataObject {
+		const messages = callEndedEvent.messages?.length ? callEndedEvent.messages : session.messages;
+		
+		return {
+			...this.processCallEndedEvent({
+				...callEndedEvent,
+				messages,
+				agentId: this.getAgentId(callEndedEvent) || session.agent_id,
+				user_name: callEndedEvent.user_name || callEndedEvent.call_data?.userName || session.user_name,
+			}),
+			session: {
+				status: 'ended',
+				buffered_messages: session.messages.length,
+			},
+		};
+	},
+
+	/**
+	 * Builds the conversation of a buffered session whose call ended event never arrived
+	 * @param {BufferedSession} session - The buffered session
+	 * @returns {IDataObject} The processed call data of the buffered messages with a session block
+	 */
+	assembleTimedOutSession(session: BufferedSession): IDataObject {
+		const sentAt = session.messages.map((msg) => Date.parse(msg.sent_at)).filter((time) => !isNaN(time));
+		const durationMinutes = sentAt.length > 1
+			? Math.round((Math.max(...sentAt) - Math.min(...sentAt)) / 60000)
+			: 0;
+		
+		return {
+			...this.processCallEndedEvent({
+				event_type: 'call_ended',
+				call_id: session.call_id,
+				evaluation: { duration_minutes: durationMinutes },
+				messages: session.messages,
+				user_name: session.user_name,
+				agentId: session.agent_id,
+			}),
+			event_type: 'session_timeout',
+			session: {
+				status: 'timed_out',
+				buffered_messages: session.messages.length,
+			},
+		};
+	},
+
+	/**
+	 * Emits and removes sessions that were inactive for longer than the timeout
+	 * @param {SessionStore} store - The session store in the workflow static data
+	 * @param {number} timeoutMs - The inactivity timeout in milliseconds
+	 * @param {number} now - The current time in milliseconds
+	 * @returns {IDataObject[]} The assembled conversations of the evicted sessions
+	 */
+	flushStaleSessions(store: SessionStore, timeoutMs: number, now: number): IDataObject[] {
+		const sessions = store.sessions || {};
+		const assembled: IDataObject[] = [];
+		
+		for (const [callId, session] of Object.entries(sessions)) {
+			if (now - session.last_activity > timeoutMs) {
+				assembled.push(this.assembleSession(session));
+				delete sessions[callId];
+			}
+		}
+		
+		return assembled;
+	},
+
+	/**
+	 * Buffers a message event per call, or emits the assembled conversation when the call ends.
+	 * Messages arriving late for a call that already ended are passed through instead of opening a new session.
+	 * @param {SessionStore} store - The session store in the workflow static data
+	 * @param {BaseWebhookData} webhookData - The parsed webhook data
+	 * @param {number} now - The current time in milliseconds
+	 * @param {string[]} [validationWarnings] - The validation warnings of the event, kept with its session
+	 * @returns {IDataObject[]} The data to emit, empty while a call is still being buffered
+	 */
+	bufferSessionEvent(
+		store: SessionStore,
+		webhookData: BaseWebhookData,
+		now: number,
+		validationWarnings: string[] = [],
+	): IDataObject[] {
+		store.sessions = store.sessions || {};
+		store.endedCalls = store.endedCalls || {};
+		const sessions = store.sessions;
+		const endedCalls = store.endedCalls;
+		const callId = webhookData.call_id || '';
+		
+		for (const [endedCallId, endedAt] of Object.entries(endedCalls)) {
+			if (now - endedAt > ENDED_CALL_TTL_MS) {
+				delete endedCalls[endedCallId];
+			}
+		}
+		
+		if (webhookData.event_type === 'message' && !endedCalls[callId]) {
+			const messageEvent = webhookData as MessageEvent;
+			const session = sessions[callId] || {
+				call_id: callId,
+				agent_id: this.getAgentId(messageEvent),
+				user_name: messageEvent.call_data?.userName || '',
+				messages: [],
+				last_activity: now,
+			};
+			
+			if (messageEvent.message) {
+				session.messages.push(messageEvent.message);
+			}
+			if (validationWarnings.length > 0) {
+				session.validation_warnings = [...(session.validation_warnings || []), ...validationWarnings];
+			}
+			session.last_activity = now;
+			sessions[callId] = session;
+			
+			const assembled: IDataObject[] = [];
+			const callIds = Object.keys(sessions);
+			
+			// Evict the least recently active sessions so static data stays bounded
+			if (callIds.length > MAX_BUFFERED_SESSIONS) {
+				callIds
+					.sort((a, b) => sessions[a].last_activity - sessions[b].last_activity)
+					.slice(0, callIds.length - MAX_BUFFERED_SESSIONS)
+					.forEach((staleCallId) => {
+						assembled.push(this.assembleSession(sessions[staleCallId]));
+						delete sessions[staleCallId];
+					});
+			}
+			
+			return assembled;
+		}
+		
+		if (webhookData.event_type === 'call_ended') {
+			const session = sessions[callId] || {
+				call_id: callId,
+				agent_id: this.getAgentId(webhookData),
+				user_name: '',
+				messages: [],
+				last_activity: now,
+			};
+			delete sessions[callId];
+			endedCalls[callId] = now;
+			
+			const endedCallIds = Object.keys(endedCalls);
+			if (endedCallIds.length > MAX_ENDED_CALLS) {
+				endedCallIds
+					.sort((a, b) => endedCalls[a] - endedCalls[b])
+					.slice(0, endedCallIds.length - MAX_ENDED_CALLS)
+					.forEach((endedCallId) => delete endedCalls[endedCallId]);
+			}
+			
+			if (validationWarnings.length > 0) {
+				session.validation_warnings = [...(session.validation_warnings || []), ...validationWarnings];
+			}
+			
+			return [this.assembleSession(session, webhookData as CallEndedEvent)];
+		}
+		
+		const processedData = this.processWebhookEvent(webhookData);
+		
+		if (validationWarnings.length > 0) {
+			processedData.validation_warnings = validationWarnings;
+		}
+		
+		return [processedData];
+	},
+
+	/**
+	 * Extracts the HTTP status code from a failed request
+	 * @param {JsonObject} error - The error thrown by the HTTP request
+	 * @returns {number | undefined} The status code, or undefined for network errors
+	 */
+	getErrorStatusCode(error: JsonObject): number | undefined {
+		const response = error.response as JsonObject | undefined;
+		const statusCode = response?.status ?? error.statusCode ?? error.httpCode;
+		return statusCode === undefined || statusCode === null ? undefined : Number(statusCode);
+	},
+
+	/**
+	 * Reads how long the API asks to wait from the Retry-After header of a failed request
+	 * @param {JsonObject} error - The error thrown by the HTTP request
+	 * @returns {number | undefined} The delay in milliseconds, or undefined without a valid header
+	 */
+	getRetryAfterMs(error: JsonObject): number | undefined {
+		const headers = ((error.response as JsonObject | undefined)?.headers || {}) as JsonObject;
+		const retryAfter = headers['retry-after'] as string | undefined;
+		
+		if (!retryAfter) {
+			return undefined;
+		}
+		
+		const retryAfterMs = isNaN(Number(retryAfter))
+			? Date.parse(retryAfter) - Date.now()
+			: Number(retryAfter) * 1000;
+		
+		return isNaN(retryAfterMs) ? undefined : Math.max(retryAfterMs, 0);
+	},
+
+	/**
+	 * Computes how long to wait before retrying a failed request
+	 * @param {JsonObject} error - The error thrown by the HTTP request
+	 * @param {number} attempt - The zero-based number of the failed attempt
+	 * @param {IHttpRequestMethods} method - The HTTP method, non-idempotent requests are only retried if the API surely did not apply them
+	 * @returns {number | null} The delay in milliseconds, or null if the request should not be retried
+	 */
+	getRetryDelayMs(error: JsonObject, attempt: number, method: IHttpRequestMethods): number | null {
+		const statusCode = this.getErrorStatusCode(error);
+		const backoffMs = Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS);
+		
+		if (statusCode === 429) {
+			const retryAfterMs = this.getRetryAfterMs(error);
+			
+			// Retrying before the rate limit window ends would only spend the retries on more 429s
+			if (retryAfterMs !== undefined) {
+				return retryAfterMs > MAX_RETRY_DELAY_MS ? null : retryAfterMs;
+			}
+			return backoffMs;
+		}
+		
+		if (!IDEMPOTENT_METHODS.includes(method)) {
+			const errorCode = error.code ?? (error.cause as JsonObject | undefined)?.code;
+			const isUnsent = statusCode === undefined && UNSENT_REQUEST_ERROR_CODES.includes(errorCode as string);
+			return statusCode === 503 || isUnsent ? backoffMs : null;
+		}
+		
+		if (statusCode === undefined || statusCode >= 500) {
+			return backoffMs;
+		}
+		
+		return null;
+	},
+
+	/**
+	 * Converts a failed request into a NodeApiError with the API's error details and a hint
+	 * @param {INode} node - The node that sent the request
+	 * @param {JsonObject} error - The error thrown by the HTTP request
+	 * @returns {NodeApiError} The error to surface to the user
+	 */
+	createApiError(node: INode, error: JsonObject): NodeApiError {
+		const statusCode = this.getErrorStatusCode(error);
+		const body = ((error.response as JsonObject | undefined)?.data ?? {}) as JsonObject;
+		const detail = body.detail ?? body.message ?? body.error;
+		let apiMessage = (error.message as string) || 'Request failed';
+		let invalidFields: string[] = [];
+		
+		if (typeof detail === 'string') {
+			apiMessage = detail;
+		} else if (Array.isArray(detail)) {
+			const issues = detail as Array<{ loc?: string[]; msg?: string }>;
+			invalidFields = issues.map((issue) => (issue.loc || []).filter((part) => part !== 'body').join('.'));
+			apiMessage = issues
+				.map((issue, index) => (invalidFields[index] ? `${invalidFields[index]}: ${issue.msg}` : issue.msg))
+				.join('; ');
+		}
+		
+		let hint: string;
+		if (statusCode === undefined) {
+			hint = 'Could not reach the Beyond Presence API. Check the Base URL, proxy and network connection.';
+		} else if (statusCode === 401 || statusCode === 403) {
+			hint = 'Check the API key in the Beyond Presence API credential.';
+		} else if (statusCode === 404) {
+			hint = 'Check that the ID exists and belongs to the account of the API key.';
+		} else if (statusCode === 400 || statusCode === 422) {
+			hint = invalidFields.some((field) => field.includes('avatar_id')) || /avatar/i.test(apiMessage)
+				? 'Invalid avatar_id: pick an avatar from the list or check its ID with the Avatar Get operation.'
+				: 'Check the parameters sent to the API.';
+		} else if (statusCode === 429) {
+			const retryAfterMs = this.getRetryAfterMs(error);
+			hint = retryAfterMs === undefined
+				? 'Rate limit exceeded. Send fewer requests or increase Max Retries in the credential.'
+				: `Rate limit exceeded. The API asks to wait ${Math.ceil(retryAfterMs / 1000)} seconds before sending more requests.`;
+		} else {
+			hint = 'The Beyond Presence API failed to handle the request. Try again later.';
+		}
+		
+		return new NodeApiError(node, error, {
+			message: statusCode ? `Beyond Presence API error ${statusCode}: ${apiMessage}` : apiMessage,
+			description: hint,
+			httpCode: statusCode ? String(statusCode) : undefined,
+		});
+	},
+
+	/**
+	 * Compares an existing agent with the desired configuration
+	 * @param {IDataObject} agent - The agent returned by the API
+	 * @param {IDataObject} desired - The desired agent configuration
+	 * @returns {IDataObject} The updatable fields whose value differs, empty when the agent is up to date
+	 */
+	getAgentChanges(agent: IDataObject, desired: IDataObject): IDataObject {
+		const normalize = (value: unknown) =>
+			JSON.stringify(
+				Array.isArray(value) && value.every((entry) => typeof entry !== 'object')
+					? [...value].map(String).sort()
+					: value ?? null,
+			);
+		const changes: IDataObject = {};
+		
+		for (const field of AGENT_UPDATABLE_FIELDS) {
+			if (desired[field] !== undefined && normalize(agent[field]) !== normalize(desired[field])) {
+				changes[field] = desired[field];
+			}
+		}
+		
+		return changes;
+	},
+
+	/**
+	 * Picks the fields of an object that are present
+	 * @param {IDataObject} data - The object to pick from
+	 * @param {string[]} fields - The fields to keep
+	 * @returns {IDataObject} An object with only the given fields
+	 */
+	pickFields(data: IDataObject, fields: string[]): IDataObject {
+		const picked: IDataObject = {};
+		
+		for (const field of fields) {
+			if (data[field] !== undefined) {
+				picked[field] = data[field];
+			}
+		}
+		
+		return picked;
+	},
+
+	/**
+	 * Reduces a formatted agent to the fields an AI agent needs
+	 * @param {IDataObject} agent - The formatted agent
+	 * @returns {IDataObject} The simplified agent
+	 */
+	simplifyAgent(agent: IDataObject): IDataObject {
+		return this.pickFields(agent, ['id', 'name', 'language', 'call_link', 'embed_html', 'upsert_result', 'error', 'success']);
+	},
+
+	/**
+	 * Reduces the avatars response to their IDs and names
+	 * @param {unknown} responseData - The avatars returned by the API, as an array or under data
+	 * @returns {IDataObject} The simplified avatars under avatars
+	 */
+	simplifyAvatars(responseData: unknown): IDataObject {
+		const avatars = (Array.isArray(responseData)
+			? responseData
+			: ((responseData as IDataObject | undefined)?.data ?? [])) as IDataObject[];
+		
+		return { avatars: avatars.map((avatar) => this.pickFields(avatar, ['id', 'name'])) };
+	},
+
+	/**
+	 * Reduces processed webhook data to its summary, dropping the full transcript and raw payload
+	 * @param {IDataObject} data - The processed webhook data
+	 * @returns {IDataObject} The simplified webhook data
+	 */
+	simplifyEvent(data: IDataObject): IDataObject {
+		return this.pickFields(data, [
+			'event_type',
+			'call_id',
+			'agent_id',
+			'user',
+			'call_summary',
+			'call_details',
+			'message',
+			'tool_call_id',
+			'tool_name',
+			'arguments',
+			'error',
+		]);
+	},
+
+	/**
+	 * Formats API response data for consistent output
+	 * @param {unknown} responseData - The raw response data to format
+	 * @param {string} [callLinkBaseUrl] - The base URL used to build the call_link
+	 * @returns {JsonObject} Formatted response with additional helpful properties like call_link
+	 */
+	formatResponse(responseData: unknown, callLinkBaseUrl: string = DEFAULT_CALL_LINK_BASE_URL): JsonObject {
+		let formattedResponse: unknown = responseData;
+		
+		if (typeof formattedResponse === 'string') {
+			try {
+				formattedResponse = JSON.parse(formattedResponse);
+			} catch (e) {
+				return { data: formattedResponse as string };
+			}
+		}
+		
+		if (!formattedResponse || typeof formattedResponse !== 'object') {
+			return { data: formattedResponse as string };
+		}
+		
+		if (formattedResponse && typeof formattedResponse === 'object' && 'id' in formattedResponse) {
+			const typedResponse = formattedResponse as {id: string};
+			return {
+				...(formattedResponse as JsonObject),
+				call_link: `${callLinkBaseUrl}/${typedResponse.id}`,
+			};
+		}
+		
+		return formattedResponse as JsonObject;
+	},
+};
+
+/**
+ * Sends an authenticated request to the Beyond Presence API
+ * @param {IHttpRequestMethods} method - The HTTP method
+ * @param {string} endpoint - The endpoint path relative to the API base URL
+ * @param {IDataObject | FormData} [body] - The JSON request body, or a multipart form for file uploads
+ * @param {IDataObject} [qs] - The query string parameters
+ * @param {ICredentialDataDecryptedObject} [prefetchedCredentials] - Already fetched credentials, to avoid fetching them per request
+ * @returns {Promise<unknown>} The parsed response body
+ */
+export async function beyondPresenceApiRequest(
+	this: BeyondPresenceFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	body?: IDataObject | FormData,
+	qs?: IDataObject,
+	prefetchedCredentials?: ICredentialDataDecryptedObject,
+): Promise<unknown> {
+	const credentials =
+		prefetchedCredentials ??
+		((await this.getCredentials('beyondPresenceApi')) as ICredentialDataDecryptedObject);
+	
+	if (credentials.sandbox === true) {
+		return sandboxHelpers.getResponse(method, endpoint, body instanceof FormData ? {} : body, qs);
+	}
+	
+	const baseUrl = beyondPresenceHelpers.normalizeBaseUrl(credentials.baseUrl, DEFAULT_API_BASE_URL);
+	
+	const options: IHttpRequestOptions = {
+		method,
+		url: `${baseUrl}${endpoint}`,
+		headers: {
+			'Accept': 'application/json',
+			'Content-Type': 'application/json',
+			'x-api-key': credentials.apiKey as string,
+		},
+		json: true,
+	};
+	
+	if (body instanceof FormData) {
+		// Sent as a buffer rather than a stream so the request can be retried
+		options.headers = {
+			'Accept': 'application/json',
+			'x-api-key': credentials.apiKey as string,
+			...body.getHeaders(),
+		};
+		options.body = body.getBuffer();
+	} else if (body !== undefined) {
+		options.body = body;
+	}
+	
+	if (qs !== undefined) {
+		options.qs = qs;
+	}
+	
+	if (credentials.timeout) {
+		options.timeout = credentials.timeout as number;
+	}
+	
+	if (credentials.proxy) {
+		options.proxy = beyondPresenceHelpers.parseProxyUrl(credentials.proxy as string);
+	}
+	
+	const maxRetries = credentials.maxRetries === undefined
+		? DEFAULT_MAX_RETRIES
+		: (credentials.maxRetries as number);
+	
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await this.helpers.httpRequest(options);
+		} catch (error) {
+			const retryDelayMs = beyondPresenceHelpers.getRetryDelayMs(error as JsonObject, attempt, method);
+			
+			if (retryDelayMs === null || attempt >= maxRetries) {
+				throw beyondPresenceHelpers.createApiError(this.getNode(), error as JsonObject);
+			}
+			
+			await sleep(retryDelayMs);
+		}
+	}
+}
+
+/**
+ * Fetches a paginated list endpoint, following next_cursor until done or the limit is reached
+ * @param {string} endpoint - The list endpoint path relative to the API base URL
+ * @param {IDataObject} [qs] - Additional query string parameters
+ * @param {number} [limit] - The maximum number of items to return, all items if omitted
+ * @returns {Promise<IDataObject[]>} The collected items
+ */
+export async function beyondPresenceApiRequestAllItems(
+	this: BeyondPresenceFunctions,
+	endpoint: string,
+	qs: IDataObject = {},
+	limit?: number,
+): Promise<IDataObject[]> {
+	const results: IDataObject[] = [];
+	let cursor: string | undefined;
+	
+	do {
+		const pageSize = limit === undefined ? 100 : Math.min(limit - results.length, 100);
+		const response = await beyondPresenceApiRequest.call(this, 'GET', endpoint, undefined, {
+			...qs,
+			limit: pageSize,
+			...(cursor ? { cursor } : {}),
+		});
+		
+		if (Array.isArray(response)) {
+			results.push(...(response as IDataObject[]));
+			break;
+		}
+		
+		const page = (response || {}) as IDataObject;
+		results.push(...((page.data as IDataObject[]) || []));
+		cursor = (page.next_cursor as string) || undefined;
+	} while (cursor && (limit === undefined || results.length < limit));
+	
+	return limit === undefined ? results : results.slice(0, limit);
+}
+
+/**
+ * Fetches all messages of a call
+ * @param {string} callId - The ID of the call
+ * @returns {Promise<WebhookMessage[]>} The messages of the call
+ */
+export async function beyondPresenceGetCallMessages(
+	this: BeyondPresenceFunctions,
+	callId: string,
+): Promise<WebhookMessage[]> {
+	const messages = await beyondPresenceApiRequestAllItems.call(
+		this,
+		`/calls/${encodeURIComponent(callId)}/messages`,
+	);
+	return messages as WebhookMessage[];
+}
+
+/**
+ * Tests the API credential, passing without a request when the sandbox is enabled
+ * @param {ICredentialsDecrypted} credential - The credential to test
+ * @returns {Promise<INodeCredentialTestResult>} Whether the API key was accepted
+ */
+export async function beyondPresenceApiTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const credentials = credential.data || {};
+	
+	if (credentials.sandbox === true) {
+		return { status: 'OK', message: 'Sandbox mode is enabled, no request was sent' };
+	}
+	
+	// Credential tests get no httpRequest helper, so the same options are sent through request
+	const options: IDataObject = {
+		method: 'GET',
+		uri: `${beyondPresenceHelpers.normalizeBaseUrl(credentials.baseUrl, DEFAULT_API_BASE_URL)}/auth/verify`,
+		headers: {
+			'Accept': 'application/json',
+			'x-api-key': credentials.apiKey as string,
+		},
+		json: true,
+	};
+	
+	if (credentials.timeout) {
+		options.timeout = credentials.timeout as number;
+	}
+	
+	try {
+		if (credentials.proxy) {
+			// Rejects invalid proxy URLs the same way API requests do
+			beyondPresenceHelpers.parseProxyUrl(credentials.proxy as string);
+			options.proxy = credentials.proxy as string;
+		}
+		
+		await this.helpers.request(options);
+	} catch (error) {
+		return { status: 'Error', message: (error as Error).message };
+	}
+	
+	return { status: 'OK', message: 'Connection successful' };
+}
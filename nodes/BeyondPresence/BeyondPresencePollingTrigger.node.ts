@@ -0,0 +1,153 @@
+import {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+	NodeConnectionType,
+} from 'n8n-workflow';
+import {
+	beyondPresenceApiRequestAllItems,
+	beyondPresenceApiTest,
+	beyondPresenceGetCallMessages,
+	beyondPresenceHelpers,
+} from './BeyondPresenceHelpers';
+import { ApiCall } from './BeyondPresenceTypes';
+
+/**
+ * Cursor kept in the workflow static data between polls
+ */
+interface PollState {
+	lastEndedAt?: string;
+	lastCallIds?: string[];
+}
+
+export class BeyondPresencePollingTrigger implements INodeType {
+	methods = {
+		credentialTest: {
+			beyondPresenceApiTest,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const pollState = this.getWorkflowStaticData('node') as PollState;
+		const filterByAgentIds = this.getNodeParameter('filterByAgentIds', false) as boolean;
+		const isManual = this.getMode() === 'manual';
+		let agentIds: string[] = [];
+
+		if (filterByAgentIds) {
+			agentIds = beyondPresenceHelpers.parseAgentIds(this.getNodeParameter('agentIds', '') as string);
+		}
+
+		// Only calls ending after activation are emitted; manual runs fetch one call as a sample
+		if (!pollState.lastEndedAt && !isManual) {
+			pollState.lastEndedAt = new Date().toISOString();
+			pollState.lastCallIds = [];
+			return null;
+		}
+
+		const lastEndedAt = pollState.lastEndedAt ? Date.parse(pollState.lastEndedAt) : 0;
+		const lastCallIds = pollState.lastCallIds || [];
+		const qs: IDataObject = {};
+
+		if (pollState.lastEndedAt) {
+			qs.ended_after = pollState.lastEndedAt;
+		}
+
+		const calls = (await beyondPresenceApiRequestAllItems.call(
+			this,
+			'/calls',
+			qs,
+			pollState.lastEndedAt ? undefined : 1,
+		)) as ApiCall[];
+
+		const endedCalls = calls
+			.filter((call) => {
+				if (!call.ended_at) {
+					return false;
+				}
+				const endedAt = Date.parse(call.ended_at);
+				return endedAt > lastEndedAt || (endedAt === lastEndedAt && !lastCallIds.includes(call.id));
+			})
+			.sort((a, b) => Date.parse(a.ended_at as string) - Date.parse(b.ended_at as string));
+
+		const returnData: INodeExecutionData[] = [];
+
+		for (const call of endedCalls) {
+			if (!beyondPresenceHelpers.matchesEventFilters(
+				beyondPresenceHelpers.buildCallEndedEvent(call, []),
+				'call_ended',
+				agentIds,
+			)) {
+				continue;
+			}
+
+			const messages = await beyondPresenceGetCallMessages.call(this, call.id);
+
+			returnData.push({
+				json: beyondPresenceHelpers.processCallEndedEvent(
+					beyondPresenceHelpers.buildCallEndedEvent(call, messages),
+				),
+			});
+		}
+
+		if (endedCalls.length > 0) {
+			const newestEndedAt = endedCalls[endedCalls.length - 1].ended_at as string;
+			const newestCallIds = endedCalls
+				.filter((call) => call.ended_at === newestEndedAt)
+				.map((call) => call.id);
+
+			pollState.lastCallIds =
+				Date.parse(newestEndedAt) === lastEndedAt ? [...lastCallIds, ...newestCallIds] : newestCallIds;
+			pollState.lastEndedAt = newestEndedAt;
+		}
+
+		return returnData.length > 0 ? [returnData] : null;
+	}
+
+	description: INodeTypeDescription = {
+		displayName: 'Beyond Presence Polling Trigger',
+		name: 'beyondPresencePollingTrigger',
+		icon: { light: 'file:logo.svg', dark: 'file:logo.dark.svg' },
+		group: ['trigger'],
+		version: 1,
+		subtitle: 'event: call_ended',
+		description: 'Starts the workflow when a Beyond Presence call ends, by polling the calls API',
+		defaults: {
+			name: 'Beyond Presence Polling Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: <NodeConnectionType[]>['main'],
+		credentials: [
+			{
+				name: 'beyondPresenceApi',
+				required: true,
+				testedBy: 'beyondPresenceApiTest',
+			},
+		],
+		properties: [
+			{
+				displayName: 'Filter by Agent IDs',
+				name: 'filterByAgentIds',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to filter calls by agent IDs',
+			},
+			{
+				displayName: 'Agent IDs',
+				name: 'agentIds',
+				type: 'string',
+				displayOptions: {
+					show: {
+						filterByAgentIds: [true],
+					},
+				},
+				default: '',
+				placeholder: 'agent_123,agent_456',
+				description: 'Comma-separated list of agent IDs to filter by',
+				hint: 'Enter multiple agent IDs separated by commas',
+			},
+		],
+	};
+}
@@ -0,0 +1,308 @@
+import { IDisplayOptions, INodeProperties } from 'n8n-workflow';
+
+/**
+ * Adds display conditions to shared properties, keeping the conditions they already have
+ * @param {INodeProperties[]} properties - The shared properties
+ * @param {IDisplayOptions['show']} show - The conditions to add, such as the resource and operation
+ * @returns {INodeProperties[]} The properties with the added conditions
+ */
+export const withDisplayOptions = (
+	properties: INodeProperties[],
+	show: IDisplayOptions['show'],
+): INodeProperties[] =>
+	properties.map((property) => ({
+		...property,
+		displayOptions: {
+			...property.displayOptions,
+			show: { ...show, ...property.displayOptions?.show },
+		},
+	}));
+
+/**
+ * Routing, validation, deduplication and session properties of webhook event handling
+ */
+export const eventProcessingProperties: INodeProperties[] = [
+	{
+		displayName: 'Route by Event Type',
+		name: 'routeByEventType',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to send call_ended, message, tool_call, unknown events and parse or validation errors to separate outputs',
+	},
+	{
+		displayName: 'Validation',
+		name: 'validation',
+		type: 'options',
+		options: [
+			{
+				name: 'Lenient',
+				value: 'lenient',
+				description: 'Process every payload and list schema mismatches in validation_warnings',
+			},
+			{
+				name: 'Strict',
+				value: 'strict',
+				description: 'Treat payloads that do not match the schema of their event type as invalid',
+			},
+		],
+		default: 'lenient',
+		description: 'How payloads are checked against the schema of their event type',
+	},
+	{
+		displayName: 'Deduplicate Events',
+		name: 'deduplicate',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to drop repeated deliveries of the same event, identified by call ID, event type and message or tool call, or by the whole payload for other events',
+	},
+	{
+		displayName: 'Duplicate Handling',
+		name: 'duplicateHandling',
+		type: 'options',
+		displayOptions: {
+			show: {
+				deduplicate: [true],
+			},
+		},
+		options: [
+			{
+				name: 'Skip',
+				value: 'skip',
+				description: 'Drop duplicate deliveries',
+			},
+			{
+				name: 'Send to Duplicates Output',
+				value: 'output',
+				description: 'Emit duplicate deliveries on a separate output',
+			},
+		],
+		default: 'skip',
+		description: 'What to do with duplicate deliveries',
+	},
+	{
+		displayName: 'Deduplication Window (Minutes)',
+		name: 'deduplicationTtl',
+		type: 'number',
+		default: 1440,
+		typeOptions: {
+			minValue: 1,
+		},
+		displayOptions: {
+			show: {
+				deduplicate: [true],
+			},
+		},
+		description: 'How long event fingerprints are remembered',
+	},
+	{
+		displayName: 'Assemble Sessions',
+		name: 'assembleSessions',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to buffer message events per call and emit the assembled conversation when the call ends or goes inactive. Messages arriving after their call ended are emitted on their own.',
+	},
+	{
+		displayName: 'Session Timeout (Minutes)',
+		name: 'sessionTimeout',
+		type: 'number',
+		default: 30,
+		typeOptions: {
+			minValue: 1,
+		},
+		displayOptions: {
+			show: {
+				assembleSessions: [true],
+			},
+		},
+		description:
+			'Minutes without new messages after which a buffered session is emitted and evicted. There is no background timer: stale sessions are only emitted when the next event is handled.',
+	},
+];
+
+/**
+ * Properties that choose which webhook events are emitted
+ */
+export const filterRuleProperties: INodeProperties[] = [
+	{
+		displayName: 'Event Type',
+		name: 'eventType',
+		type: 'options',
+		displayOptions: {
+			show: {
+				assembleSessions: [false],
+				routeByEventType: [false],
+			},
+		},
+		options: [
+			{
+				name: 'Call Ended',
+				value: 'call_ended',
+				description: 'When a call ends',
+			},
+			{
+				name: 'Message',
+				value: 'message',
+				description: 'When a message is exchanged during a call',
+			},
+			{
+				name: 'Tool Call',
+				value: 'tool_call',
+				description: 'When the agent calls one of its custom tools during a call',
+			},
+			{
+				name: 'All Events',
+				value: 'all',
+				description: 'Process all event types',
+			},
+		],
+		default: 'all',
+		description: 'The event type to process',
+	},
+	{
+		displayName: 'Filter by Agent IDs',
+		name: 'filterByAgentIds',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to filter events by agent IDs',
+	},
+	{
+		displayName: 'Agent IDs',
+		name: 'agentIds',
+		type: 'string',
+		displayOptions: {
+			show: {
+				filterByAgentIds: [true],
+			},
+		},
+		default: '',
+		placeholder: 'agent_123,agent_456',
+		description: 'Comma-separated list of agent IDs to filter by',
+		hint: 'Enter multiple agent IDs separated by commas',
+	},
+	{
+		displayName: 'Filter Rules',
+		name: 'filterRules',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Rule',
+		default: {},
+		description: 'Rules the processed event must match to be emitted',
+		options: [
+			{
+				name: 'rules',
+				displayName: 'Rule',
+				values: [
+					{
+						displayName: 'Field',
+						name: 'field',
+						type: 'options',
+						options: [
+							{
+								name: 'Duration (Minutes)',
+								value: 'durationMinutes',
+							},
+							{
+								name: 'Message Content',
+								value: 'messageContent',
+								description: 'Content of the message, or of any message of an ended call',
+							},
+							{
+								name: 'Message Count',
+								value: 'messageCount',
+							},
+							{
+								name: 'Message Sender',
+								value: 'messageSender',
+								description: 'Sender of the message, or of any message of an ended call',
+							},
+							{
+								name: 'Topic',
+								value: 'topic',
+							},
+							{
+								name: 'Transcript',
+								value: 'transcript',
+								description: 'All messages of an ended call, or the content of a message',
+							},
+							{
+								name: 'User Name',
+								value: 'userName',
+							},
+							{
+								name: 'User Sentiment',
+								value: 'userSentiment',
+							},
+						],
+						default: 'userSentiment',
+					},
+					{
+						displayName: 'Operator',
+						name: 'operator',
+						type: 'options',
+						options: [
+							{
+								name: 'Contains',
+								value: 'contains',
+							},
+							{
+								name: 'Does Not Contain',
+								value: 'notContains',
+							},
+							{
+								name: 'Equals',
+								value: 'equals',
+							},
+							{
+								name: 'Greater Than or Equal',
+								value: 'gte',
+							},
+							{
+								name: 'Less Than or Equal',
+								value: 'lte',
+							},
+							{
+								name: 'Matches Regex',
+								value: 'regex',
+							},
+							{
+								name: 'Not Equals',
+								value: 'notEquals',
+							},
+						],
+						default: 'equals',
+						description: 'Text comparisons are case-insensitive',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+						placeholder: 'negative',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Combine Rules',
+		name: 'filterCombine',
+		type: 'options',
+		options: [
+			{
+				name: 'All Rules Must Match (AND)',
+				value: 'and',
+			},
+			{
+				name: 'Any Rule Must Match (OR)',
+				value: 'or',
+			},
+		],
+		default: 'and',
+		description: 'How multiple filter rules are combined',
+	},
+];
@@ -0,0 +1,320 @@
+import { randomUUID } from 'crypto';
+import { ApplicationError, IDataObject, IHttpRequestMethods } from 'n8n-workflow';
+import { ApiCall, CallEndedEvent, MessageEvent, WebhookMessage } from './BeyondPresenceTypes';
+
+/**
+ * Options controlling the generated sample webhook events
+ */
+export interface SampleEventOptions {
+	eventType: 'call_ended' | 'message' | 'conversation';
+	agentId: string;
+	userName: string;
+	messageCount: number;
+	durationMinutes: number;
+	userSentiment: string;
+	topic: string;
+	seed?: number;
+}
+
+const SANDBOX_AVATARS: IDataObject[] = [
+	{ id: 'b9be11b8-89fb-4227-8f86-4a881393cbdb', name: 'Ege', status: 'available' },
+	{ id: '2bc759ab-a7e5-4b91-941d-9e42450d6546', name: 'Sophia', status: 'available' },
+	{ id: '7c9ca52f-d4f7-46e1-a4b8-0c8655857cc3', name: 'Marcus', status: 'available' },
+];
+
+const SANDBOX_AGENTS: IDataObject[] = [
+	{
+		id: '01a4c8f2-6d3b-4e57-9b1a-2f7e8c9d0a11',
+		name: 'Sales Assistant',
+		avatar_id: 'b9be11b8-89fb-4227-8f86-4a881393cbdb',
+		system_prompt: 'You are a friendly sales assistant for Acme Inc.',
+		language: 'en',
+		greeting: 'Hi! How can I help you find the right plan today?',
+		max_session_length_minutes: 30,
+		capabilities: [],
+		created_at: '2025-01-06T09:00:00.000Z',
+	},
+	{
+		id: '5e2b7d90-1c4a-4f38-8e6d-3a9b0c7f2e44',
+		name: 'Support Agent',
+		avatar_id: '2bc759ab-a7e5-4b91-941d-9e42450d6546',
+		system_prompt: 'You help customers of Acme Inc. solve problems with their orders.',
+		language: 'en',
+		greeting: 'Hello, what can I help you with?',
+		max_session_length_minutes: 15,
+		capabilities: ['webcam_vision'],
+		created_at: '2025-01-07T14:30:00.000Z',
+	},
+];
+
+const SANDBOX_CALLS: ApiCall[] = [
+	{
+		id: '9f1e3c5a-7b2d-4e60-8a4c-1d3f5b7e9a02',
+		agent_id: '01a4c8f2-6d3b-4e57-9b1a-2f7e8c9d0a11',
+		user_name: 'Jane Doe',
+		started_at: '2025-01-08T10:00:00.000Z',
+		ended_at: '2025-01-08T10:04:00.000Z',
+		evaluation: {
+			topic: 'Pricing plans',
+			user_sentiment: 'positive',
+			duration_minutes: 4,
+			messages_count: 4,
+		},
+	},
+	{
+		id: '3b8d0f2e-4a6c-4d19-9e7b-5c1a3e5f7b08',
+		agent_id: '5e2b7d90-1c4a-4f38-8e6d-3a9b0c7f2e44',
+		user_name: 'John Smith',
+		started_at: '2025-01-08T11:30:00.000Z',
+		ended_at: '2025-01-08T11:32:00.000Z',
+		evaluation: {
+			topic: 'Delayed order',
+			user_sentiment: 'neutral',
+			duration_minutes: 2,
+			messages_count: 4,
+		},
+	},
+];
+
+const SANDBOX_MESSAGES: Array<Pick<WebhookMessage, 'sender' | 'message'> & { offsetSeconds: number }> = [
+	{ sender: 'ai', message: 'Hi! How can I help you today?', offsetSeconds: 0 },
+	{ sender: 'user', message: 'I would like to know more about your plans.', offsetSeconds: 5 },
+	{ sender: 'ai', message: 'Of course. We offer a Starter and a Business plan.', offsetSeconds: 12 },
+	{ sender: 'user', message: 'Great, thank you!', offsetSeconds: 20 },
+];
+
+const SAMPLE_AGENT_LINES = [
+	'Hi! How can I help you today?',
+	'Of course, let me look into that for you.',
+	'That is a great question. Here is how it works.',
+	'Is there anything else you would like to know?',
+	'I can send you a summary of our conversation by email.',
+	'Thanks for your patience, I found the details.',
+];
+
+const SAMPLE_USER_LINES = [
+	'Hello, I have a question about your product.',
+	'Can you tell me more about the pricing?',
+	'How long does the setup take?',
+	'That sounds good, thank you.',
+	'Could you send me more information?',
+	'Great, that answers my question.',
+];
+
+const SAMPLE_SENTIMENTS = ['positive', 'neutral', 'negative'];
+
+// Seeded samples start from a fixed date so that they are repeatable
+const SAMPLE_SEED_START_MS = Date.parse('2025-01-08T10:00:00.000Z');
+
+const SANDBOX_DOCUMENTS: IDataObject[] = [
+	{
+		id: 'd4e6f8a0-2b4c-4d6e-8f0a-1c3e5a7b9d13',
+		name: 'Product FAQ.pdf',
+		status: 'ready',
+		created_at: '2025-01-05T08:00:00.000Z',
+	},
+];
+
+export const sandboxHelpers = {
+	/**
+	 * Wraps fixture items in a page of the list endpoints, applying the limit
+	 * @param {IDataObject[]} items - The fixture items
+	 * @param {IDataObject} qs - The query string parameters of the request
+	 * @returns {IDataObject} A single page without a next cursor
+	 */
+	toPage(items: IDataObject[], qs: IDataObject): IDataObject {
+		const limit = qs.limit === undefined ? items.length : Number(qs.limit);
+		return { data: items.slice(0, limit), next_cursor: null };
+	},
+
+	/**
+	 * Filters the fixture calls by the query string parameters of the calls endpoint
+	 * @param {IDataObject} qs - The query string parameters of the request
+	 * @returns {ApiCall[]} The matching calls
+	 */
+	filterCalls(qs: IDataObject): ApiCall[] {
+		const isAfter = (value: string | null | undefined, bound: unknown) =>
+			bound === undefined || (!!value && Date.parse(value) > Date.parse(String(bound)));
+		const isBefore = (value: string | null | undefined, bound: unknown) =>
+			bound === undefined || (!!value && Date.parse(value) < Date.parse(String(bound)));
+
+		return SANDBOX_CALLS.filter(
+			(call) =>
+				(qs.agent_id === undefined || call.agent_id === qs.agent_id) &&
+				isAfter(call.started_at, qs.started_after) &&
+				isBefore(call.started_at, qs.started_before) &&
+				isAfter(call.ended_at, qs.ended_after),
+		);
+	},
+
+	/**
+	 * Builds the messages of a fixture call, timed from its start
+	 * @param {string} callId - The ID of the call
+	 * @returns {WebhookMessage[]} The messages of the call
+	 */
+	getCallMessages(callId: string): WebhookMessage[] {
+		const call = SANDBOX_CALLS.find((sandboxCall) => sandboxCall.id === callId);
+		const startedAt = Date.parse(call?.started_at || SANDBOX_CALLS[0].started_at || '');
+
+		return SANDBOX_MESSAGES.map(({ offsetSeconds, ...message }) => ({
+			...message,
+			sent_at: new Date(startedAt + offsetSeconds * 1000).toISOString(),
+		}));
+	},
+
+	/**
+	 * Creates a random number generator, repeatable when a seed is given
+	 * @param {number} [seed] - The seed of the generator
+	 * @returns {() => number} A function returning numbers between 0 (inclusive) and 1 (exclusive)
+	 */
+	createRandom(seed?: number): () => number {
+		if (seed === undefined) {
+			return Math.random;
+		}
+
+		// mulberry32
+		let state = seed >>> 0;
+		return () => {
+			state = (state + 0x6d2b79f5) >>> 0;
+			let value = state;
+			value = Math.imul(value ^ (value >>> 15), value | 1);
+			value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+			return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+		};
+	},
+
+	/**
+	 * Generates a version 4 UUID from a random number generator
+	 * @param {() => number} random - The random number generator
+	 * @returns {string} The UUID
+	 */
+	createUuid(random: () => number): string {
+		return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+			const nibble = Math.floor(random() * 16);
+			return (char === 'x' ? nibble : (nibble & 0x3) | 0x8).toString(16);
+		});
+	},
+
+	/**
+	 * Generates sample webhook payloads shaped like the events Beyond Presence sends
+	 * @param {SampleEventOptions} options - The options of the sample
+	 * @returns {Array<MessageEvent | CallEndedEvent>} The message events, the call ended event, or both for a conversation
+	 */
+	generateSampleEvents(options: SampleEventOptions): Array<MessageEvent | CallEndedEvent> {
+		const random = this.createRandom(options.seed);
+		const pick = (values: string[]) => values[Math.floor(random() * values.length)];
+		const callId = this.createUuid(random);
+		const agentId = options.agentId || this.createUuid(random);
+		const durationMs = Math.max(options.durationMinutes, 0) * 60000;
+		const startedAtMs = options.seed === undefined
+			? Date.now() - durationMs
+			: SAMPLE_SEED_START_MS + Math.floor(random() * 30) * 86400000;
+		const startedAt = new Date(startedAtMs).toISOString();
+		const endedAt = new Date(startedAtMs + durationMs).toISOString();
+		const messageCount = Math.max(Math.floor(options.messageCount), 0);
+
+		const messages: WebhookMessage[] = Array.from({ length: messageCount }, (_, index) => ({
+			sender: index % 2 === 0 ? 'ai' : 'user',
+			message:
+				index === 0 ? SAMPLE_AGENT_LINES[0] : pick(index % 2 === 0 ? SAMPLE_AGENT_LINES.slice(1) : SAMPLE_USER_LINES),
+			sent_at: new Date(startedAtMs + Math.floor((durationMs * index) / Math.max(messageCount, 1))).toISOString(),
+		}));
+
+		// Every event gets its own objects so changing one output item never changes another
+		const messageEvents: MessageEvent[] = messages.map((message) => ({
+			event_type: 'message',
+			call_id: callId,
+			message: { ...message },
+			call_data: { userName: options.userName, agentId, startedAt },
+		}));
+		const callEndedEvent: CallEndedEvent = {
+			event_type: 'call_ended',
+			call_id: callId,
+			evaluation: {
+				topic: options.topic,
+				user_sentiment: options.userSentiment === 'random' ? pick(SAMPLE_SENTIMENTS) : options.userSentiment,
+				duration_minutes: options.durationMinutes,
+				messages_count: messageCount,
+			},
+			messages: messages.map((message) => ({ ...message })),
+			user_name: options.userName,
+			call_data: { userName: options.userName, agentId, startedAt, endedAt },
+		};
+
+		if (options.eventType === 'message') {
+			return messageEvents;
+		}
+
+		return options.eventType === 'call_ended' ? [callEndedEvent] : [...messageEvents, callEndedEvent];
+	},
+
+	/**
+	 * Returns the fixture response of an API request, without sending anything over the network
+	 * @param {IHttpRequestMethods} method - The HTTP method
+	 * @param {string} endpoint - The endpoint path relative to the API base URL
+	 * @param {IDataObject} [body] - The JSON request body
+	 * @param {IDataObject} [qs] - The query string parameters
+	 * @returns {unknown} The response the API would return
+	 * @throws {ApplicationError} If the sandbox has no fixture for the endpoint
+	 */
+	getResponse(method: IHttpRequestMethods, endpoint: string, body: IDataObject = {}, qs: IDataObject = {}): unknown {
+		const [resource, id, subresource] = endpoint
+			.replace(/^\/+/, '')
+			.split('/')
+			.map((segment) => decodeURIComponent(segment));
+		const now = new Date().toISOString();
+
+		if (method === 'DELETE') {
+			return {};
+		}
+
+		if (resource === 'avatar' && method === 'GET') {
+			return id
+				? (SANDBOX_AVATARS.find((avatar) => avatar.id === id) ?? SANDBOX_AVATARS[0])
+				: this.toPage(SANDBOX_AVATARS, qs);
+		}
+
+		if (resource === 'agent') {
+			if (subresource === 'documents') {
+				return { agent_id: id, document_ids: body.document_ids ?? [] };
+			}
+
+			if (method === 'POST') {
+				return { ...SANDBOX_AGENTS[0], ...body, id: randomUUID(), created_at: now };
+			}
+
+			if (!id) {
+				return this.toPage(SANDBOX_AGENTS, qs);
+			}
+
+			const agent = SANDBOX_AGENTS.find((sandboxAgent) => sandboxAgent.id === id) ?? SANDBOX_AGENTS[0];
+			return method === 'PATCH' ? { ...agent, ...body, id } : { ...agent, id };
+		}
+
+		if (resource === 'calls' && method === 'GET') {
+			if (subresource === 'messages') {
+				return this.toPage(this.getCallMessages(id), qs);
+			}
+
+			if (id) {
+				return { ...(SANDBOX_CALLS.find((call) => call.id === id) ?? SANDBOX_CALLS[0]), id };
+			}
+
+			return this.toPage(this.filterCalls(qs), qs);
+		}
+
+		if (resource === 'documents') {
+			if (method === 'POST') {
+				return { id: randomUUID(), name: 'Sandbox document', status: 'processing', created_at: now };
+			}
+
+			return this.toPage(SANDBOX_DOCUMENTS, qs);
+		}
+
+		if (resource === 'auth') {
+			return { valid: true };
+		}
+
+		throw new ApplicationError(`The sandbox has no fixture for ${method} ${endpoint}`);
+	},
+};
@@ -0,0 +1,218 @@
+import { ApplicationError } from 'n8n-workflow';
+import { ProcessedMessage } from './BeyondPresenceTypes';
+
+/**
+ * Supported transcript output formats
+ */
+export type TranscriptFormat = 'text' | 'markdown' | 'srt' | 'vtt' | 'csv' | 'jsonl';
+
+/**
+ * Options controlling how a transcript is rendered
+ */
+export interface TranscriptOptions {
+	agentLabel: string;
+	userLabel: string;
+	includeTimestamps: boolean;
+}
+
+/**
+ * A message with its speaker label and offset from the start of the call
+ */
+interface TranscriptLine {
+	sender: string;
+	speaker: string;
+	message: string;
+	timestamp: string;
+	offsetMs: number;
+}
+
+const MIN_CUE_DURATION_MS = 1500;
+const MS_PER_WORD = 400;
+
+export const transcriptFileTypes: Record<TranscriptFormat, { extension: string; mimeType: string }> = {
+	text: { extension: 'txt', mimeType: 'text/plain' },
+	markdown: { extension: 'md', mimeType: 'text/markdown' },
+	srt: { extension: 'srt', mimeType: 'application/x-subrip' },
+	vtt: { extension: 'vtt', mimeType: 'text/vtt' },
+	csv: { extension: 'csv', mimeType: 'text/csv' },
+	jsonl: { extension: 'jsonl', mimeType: 'application/x-ndjson' },
+};
+
+export const transcriptHelpers = {
+	/**
+	 * Normalizes raw webhook messages and processed messages into one shape
+	 * @param {unknown} messages - An array of {sender, message, sent_at} or {sender, message, timestamp}
+	 * @returns {ProcessedMessage[]} The normalized messages
+	 * @throws {ApplicationError} If the messages are not an array
+	 */
+	normalizeMessages(messages: unknown): ProcessedMessage[] {
+		if (typeof messages === 'string') {
+			try {
+				messages = JSON.parse(messages);
+			} catch (error) {
+				throw new ApplicationError(`Invalid messages JSON: ${(error as Error).message}`);
+			}
+		}
+
+		if (!Array.isArray(messages)) {
+			throw new ApplicationError('Messages must be an array');
+		}
+
+		return messages.map((msg: Record<string, unknown>) => ({
+			sender: String(msg?.sender ?? ''),
+			message: String(msg?.message ?? msg?.content ?? ''),
+			timestamp: String(msg?.timestamp ?? msg?.sent_at ?? ''),
+		}));
+	},
+
+	/**
+	 * Resolves speaker labels and offsets relative to the first message
+	 * @param {ProcessedMessage[]} messages - The normalized messages
+	 * @param {TranscriptOptions} options - The rendering options
+	 * @returns {TranscriptLine[]} The transcript lines
+	 */
+	toLines(messages: ProcessedMessage[], options: TranscriptOptions): TranscriptLine[] {
+		const firstSentAt = messages
+			.map((msg) => Date.parse(msg.timestamp))
+			.find((sentAt) => !isNaN(sentAt));
+		let previousOffsetMs = 0;
+
+		return messages.map((msg) => {
+			const sentAt = Date.parse(msg.timestamp);
+			const offsetMs =
+				firstSentAt === undefined || isNaN(sentAt) ? previousOffsetMs : Math.max(sentAt - firstSentAt, 0);
+			previousOffsetMs = offsetMs;
+
+			return {
+				sender: msg.sender,
+				speaker: msg.sender.toLowerCase() === 'user' ? options.userLabel : options.agentLabel,
+				message: msg.message,
+				timestamp: msg.timestamp,
+				offsetMs,
+			};
+		});
+	},
+
+	/**
+	 * Formats an offset as a clock time
+	 * @param {number} offsetMs - The offset in milliseconds
+	 * @param {string} [millisecondSeparator] - Separator before milliseconds, omitted when not given
+	 * @returns {string} The offset as mm:ss, or hh:mm:ss<sep>mmm when a separator is given
+	 */
+	formatOffset(offsetMs: number, millisecondSeparator?: string): string {
+		const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+		const hours = Math.floor(offsetMs / 3600000);
+		const minutes = Math.floor((offsetMs % 3600000) / 60000);
+		const seconds = Math.floor((offsetMs % 60000) / 1000);
+
+		if (millisecondSeparator === undefined) {
+			return hours > 0
+				? `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+				: `${pad(minutes)}:${pad(seconds)}`;
+		}
+
+		return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${millisecondSeparator}${pad(offsetMs % 1000, 3)}`;
+	},
+
+	/**
+	 * Computes the end of a subtitle cue from the next message or the message length
+	 * @param {TranscriptLine[]} lines - The transcript lines
+	 * @param {number} index - The index of the cue
+	 * @returns {number} The end offset of the cue in milliseconds
+	 */
+	getCueEndMs(lines: TranscriptLine[], index: number): number {
+		const line = lines[index];
+		const words = line.message.split(/\s+/).filter(Boolean).length;
+		const estimatedEndMs = line.offsetMs + Math.max(words * MS_PER_WORD, MIN_CUE_DURATION_MS);
+		const next = lines[index + 1];
+
+		if (next && next.offsetMs > line.offsetMs) {
+			return Math.min(next.offsetMs, estimatedEndMs);
+		}
+
+		return estimatedEndMs;
+	},
+
+	/**
+	 * Escapes a value for a CSV cell
+	 * @param {string | number} value - The cell value
+	 * @returns {string} The escaped cell
+	 */
+	escapeCsv(value: string | number): string {
+		const text = String(value);
+		return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+	},
+
+	/**
+	 * Renders messages as a transcript in the given format
+	 * @param {unknown} messages - The messages to render
+	 * @param {TranscriptFormat} format - The output format
+	 * @param {TranscriptOptions} options - The rendering options
+	 * @returns {string} The rendered transcript
+	 */
+	render(messages: unknown, format: TranscriptFormat, options: TranscriptOptions): string {
+		const lines = this.toLines(this.normalizeMessages(messages), options);
+
+		switch (format) {
+			case 'text':
+				return lines
+					.map((line) =>
+						options.includeTimestamps
+							? `[${this.formatOffset(line.offsetMs)}] ${line.speaker}: ${line.message}`
+							: `${line.speaker}: ${line.message}`,
+					)
+					.join('\n');
+			case 'markdown':
+				return lines
+					.map((line) =>
+						options.includeTimestamps
+							? `**${line.speaker}** _(${this.formatOffset(line.offsetMs)})_: ${line.message}`
+							: `**${line.speaker}**: ${line.message}`,
+					)
+					.join('\n\n');
+			case 'srt':
+				return lines
+					.map((line, index) =>
+						[
+							String(index + 1),
+							`${this.formatOffset(line.offsetMs, ',')} --> ${this.formatOffset(this.getCueEndMs(lines, index), ',')}`,
+							`${line.speaker}: ${line.message}`,
+						].join('\n'),
+					)
+					.join('\n\n');
+			case 'vtt':
+				return [
+					'WEBVTT',
+					...lines.map((line, index) =>
+						[
+							`${this.formatOffset(line.offsetMs, '.')} --> ${this.formatOffset(this.getCueEndMs(lines, index), '.')}`,
+							`<v ${line.speaker}>${line.message}`,
+						].join('\n'),
+					),
+				].join('\n\n');
+			case 'csv':
+				return [
+					'index,sender,speaker,timestamp,offset_seconds,message',
+					...lines.map((line, index) =>
+						[index + 1, line.sender, line.speaker, line.timestamp, line.offsetMs / 1000, line.message]
+							.map((value) => this.escapeCsv(value))
+							.join(','),
+					),
+				].join('\n');
+			case 'jsonl':
+				return lines
+					.map((line) =>
+						JSON.stringify({
+							sender: line.sender,
+							speaker: line.speaker,
+							timestamp: line.timestamp,
+							offset_seconds: line.offsetMs / 1000,
+							message: line.message,
+						}),
+					)
+					.join('\n');
+			default:
+				throw new ApplicationError(`Unsupported transcript format: ${format as string}`);
+		}
+	},
+};
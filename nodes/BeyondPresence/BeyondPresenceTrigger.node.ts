@@ -0,0 +1,354 @@
+import {
+	ApplicationError,
+	IDataObject,
+	INodeExecutionData,
+	INodeParameters,
+	INodeType,
+	INodeTypeDescription,
+	IWebhookFunctions,
+	IWebhookResponseData,
+} from 'n8n-workflow';
+import { beyondPresenceHelpers } from './BeyondPresenceHelpers';
+import { eventProcessingProperties, filterRuleProperties } from './BeyondPresenceProperties';
+import { DeduplicationStore, FilterRule, SessionStore } from './BeyondPresenceTypes';
+
+const UNKNOWN_EVENT_OUTPUT_INDEX = 2;
+const ERROR_OUTPUT_INDEX = 3;
+
+const configuredOutputs = (parameters: INodeParameters) => {
+	const duplicatesOutput = parameters.deduplicate === true && parameters.duplicateHandling === 'output';
+	const outputs: Array<{ type: string; displayName?: string }> =
+		parameters.routeByEventType === true
+			? [
+				{ type: 'main', displayName: 'Call Ended' },
+				{ type: 'main', displayName: 'Message' },
+				{ type: 'main', displayName: 'Unknown Event' },
+				{ type: 'main', displayName: 'Error' },
+				{ type: 'main', displayName: 'Tool Call' },
+			]
+			: [duplicatesOutput ? { type: 'main', displayName: 'Events' } : { type: 'main' }];
+
+	if (duplicatesOutput) {
+		outputs.push({ type: 'main', displayName: 'Duplicates' });
+	}
+
+	return outputs;
+};
+
+export class BeyondPresenceTrigger implements INodeType {
+	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		const authentication = this.getNodeParameter('authentication', 'none') as string;
+
+		if (authentication === 'signature') {
+			const credentials = await this.getCredentials('beyondPresenceWebhookApi');
+			const request = this.getRequestObject();
+			const headers = this.getHeaderData();
+			const rawBody = request.rawBody
+				? (request.rawBody as Buffer).toString()
+				: JSON.stringify(this.getBodyData());
+
+			try {
+				beyondPresenceHelpers.verifyWebhookSignature(
+					rawBody,
+					headers['x-bey-signature'] as string | undefined,
+					headers['x-bey-timestamp'] as string | undefined,
+					credentials.signingSecret as string,
+					credentials.timestampTolerance as number,
+				);
+			} catch (error) {
+				const response = this.getResponseObject();
+				response.status(401).json({ error: (error as Error).message });
+				return { noWebhookResponse: true };
+			}
+		}
+
+		const responseMode = this.getNodeParameter('responseMode', 'onReceived') as string;
+		const respond = (result: IWebhookResponseData): IWebhookResponseData => {
+			if (responseMode !== 'custom') {
+				return result;
+			}
+
+			const response = this.getResponseObject();
+			const responseHeaders = ((this.getNodeParameter('responseHeaders', {}) as IDataObject).entries ||
+				[]) as Array<{ name: string; value: string }>;
+
+			for (const header of responseHeaders) {
+				response.setHeader(header.name, header.value);
+			}
+
+			response
+				.status(this.getNodeParameter('responseCode', 200) as number)
+				.send(this.getNodeParameter('responseBody', '') as string);
+
+			return { ...result, noWebhookResponse: true };
+		};
+		const webhookPayload = this.getBodyData();
+		const outputs = configuredOutputs(this.getNode().parameters);
+		const workflowData: INodeExecutionData[][] = outputs.map(() => []);
+		const routeByEventType = this.getNodeParameter('routeByEventType', false) as boolean;
+		const assembleSessions = this.getNodeParameter('assembleSessions', false) as boolean;
+		const eventType =
+			assembleSessions || routeByEventType ? 'all' : (this.getNodeParameter('eventType') as string);
+		const filterByAgentIds = this.getNodeParameter('filterByAgentIds', false) as boolean;
+		let agentIds: string[] = [];
+
+		if (filterByAgentIds) {
+			agentIds = beyondPresenceHelpers.parseAgentIds(this.getNodeParameter('agentIds', '') as string);
+		}
+
+		const filterRules = ((this.getNodeParameter('filterRules', {}) as IDataObject).rules ||
+			[]) as FilterRule[];
+		const filterCombine = this.getNodeParameter('filterCombine', 'and') as string;
+
+		const emit = (json: IDataObject) => {
+			const eventOutputIndex = beyondPresenceHelpers.getEventOutputIndex(json.event_type as string);
+
+			// Unknown events routed to their own output have none of the filtered fields, so they bypass the rules
+			if (
+				!(routeByEventType && eventOutputIndex === UNKNOWN_EVENT_OUTPUT_INDEX) &&
+				!beyondPresenceHelpers.matchesFilterRules(json, filterRules, filterCombine)
+			) {
+				return;
+			}
+
+			workflowData[routeByEventType ? eventOutputIndex : 0].push({ json });
+		};
+
+		try {
+			if (!webhookPayload) {
+				throw new ApplicationError('Missing webhook data');
+			}
+
+			const webhookData = beyondPresenceHelpers.parseWebhookData(webhookPayload);
+			const validationWarnings = beyondPresenceHelpers.validateWebhookData(
+				webhookData,
+				this.getNodeParameter('validation', 'lenient') as string,
+			);
+
+			if (this.getNodeParameter('deduplicate', false) as boolean) {
+				const deduplicationStore = this.getWorkflowStaticData('node') as DeduplicationStore;
+				const deduplicationTtl = this.getNodeParameter('deduplicationTtl', 1440) as number;
+				const isDuplicate = beyondPresenceHelpers.isDuplicateEvent(
+					deduplicationStore,
+					beyondPresenceHelpers.getEventFingerprint(webhookData),
+					deduplicationTtl * 60000,
+					Date.now(),
+				);
+
+				if (isDuplicate) {
+					if (this.getNodeParameter('duplicateHandling', 'skip') === 'output') {
+						workflowData[outputs.length - 1].push({ json: webhookData as IDataObject });
+						return respond({ workflowData });
+					}
+					return respond({});
+				}
+			}
+
+			if (assembleSessions) {
+				const sessionStore = this.getWorkflowStaticData('node') as SessionStore;
+				const sessionTimeout = this.getNodeParameter('sessionTimeout', 30) as number;
+				const now = Date.now();
+				const assembled = beyondPresenceHelpers.flushStaleSessions(sessionStore, sessionTimeout * 60000, now);
+
+				if (beyondPresenceHelpers.matchesEventFilters(webhookData, eventType, agentIds)) {
+					assembled.push(
+						...beyondPresenceHelpers.bufferSessionEvent(sessionStore, webhookData, now, validationWarnings),
+					);
+				}
+
+				assembled.forEach(emit);
+			} else if (beyondPresenceHelpers.matchesEventFilters(webhookData, eventType, agentIds)) {
+				const processedData = beyondPresenceHelpers.processWebhookEvent(webhookData);
+
+				if (validationWarnings.length > 0) {
+					processedData.validation_warnings = validationWarnings;
+				}
+
+				emit(processedData);
+			}
+		} catch (error) {
+			if (this.getNodeParameter('invalidPayloads', 'reject') === 'reject') {
+				this.getResponseObject().status(400).json({ error: (error as Error).message });
+				return { noWebhookResponse: true };
+			}
+
+			if (routeByEventType) {
+				workflowData[ERROR_OUTPUT_INDEX].push({
+					json: { error: (error as Error).message, payload: webhookPayload },
+				});
+			} else {
+				workflowData[0].push({ json: { error: (error as Error).message } });
+			}
+		}
+
+		return respond(workflowData.some((items) => items.length > 0) ? { workflowData } : {});
+	}
+
+	description: INodeTypeDescription = {
+		displayName: 'Beyond Presence Trigger',
+		name: 'beyondPresenceTrigger',
+		icon: { light: 'file:logo.svg', dark: 'file:logo.dark.svg' },
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{"event: " + $parameter["eventType"]}}',
+		description: 'Starts the workflow when Beyond Presence sends a webhook event',
+		defaults: {
+			name: 'Beyond Presence Trigger',
+		},
+		inputs: [],
+		outputs: `={{(${configuredOutputs})($parameter)}}`,
+		credentials: [
+			{
+				name: 'beyondPresenceWebhookApi',
+				required: true,
+				displayOptions: {
+					show: {
+						authentication: ['signature'],
+					},
+				},
+			},
+		],
+		webhooks: [
+			{
+				name: 'default',
+				httpMethod: 'POST',
+				responseMode: '={{$parameter["responseMode"] === "lastNode" ? "lastNode" : "onReceived"}}',
+				path: 'webhook',
+			},
+		],
+		properties: [
+			{
+				displayName: 'Authentication',
+				name: 'authentication',
+				type: 'options',
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+					},
+					{
+						name: 'Signing Secret',
+						value: 'signature',
+						description: 'Reject requests without a valid HMAC signature with a 401',
+					},
+				],
+				default: 'none',
+				description: 'How incoming webhook requests are authenticated',
+			},
+			{
+				displayName: 'Respond',
+				name: 'responseMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Immediately',
+						value: 'onReceived',
+						description: 'Acknowledge the request with a 200 as soon as it is accepted',
+					},
+					{
+						name: 'When Last Node Finishes',
+						value: 'lastNode',
+						description:
+							'Wait for the workflow and send the output of its last node, for example as the response to a tool call',
+					},
+					{
+						name: 'With Custom Response',
+						value: 'custom',
+						description: 'Acknowledge the request with a fixed status code, headers and body',
+					},
+				],
+				default: 'onReceived',
+				description: 'When and how to respond to accepted webhook requests',
+			},
+			{
+				displayName: 'Response Code',
+				name: 'responseCode',
+				type: 'number',
+				typeOptions: {
+					minValue: 100,
+					maxValue: 599,
+				},
+				displayOptions: {
+					show: {
+						responseMode: ['custom'],
+					},
+				},
+				default: 200,
+				description: 'The HTTP status code to return',
+			},
+			{
+				displayName: 'Response Headers',
+				name: 'responseHeaders',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						responseMode: ['custom'],
+					},
+				},
+				placeholder: 'Add Header',
+				default: {},
+				options: [
+					{
+						name: 'entries',
+						displayName: 'Header',
+						values: [
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+				description: 'The HTTP headers to return',
+			},
+			{
+				displayName: 'Response Body',
+				name: 'responseBody',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				displayOptions: {
+					show: {
+						responseMode: ['custom'],
+					},
+				},
+				default: '',
+				placeholder: '{ "received": true }',
+				description: 'The body to return',
+			},
+			{
+				displayName: 'Invalid Payloads',
+				name: 'invalidPayloads',
+				type: 'options',
+				options: [
+					{
+						name: 'Reject With 400',
+						value: 'reject',
+						description: 'Respond with a 400 and the error, without starting the workflow',
+					},
+					{
+						name: 'Output Error',
+						value: 'output',
+						description: 'Start the workflow with an item holding the error, on the Error output when routing by event type',
+					},
+				],
+				default: 'reject',
+				description: 'What to do with payloads that cannot be parsed or fail strict validation',
+			},
+			...eventProcessingProperties,
+			...filterRuleProperties,
+		],
+	};
+}
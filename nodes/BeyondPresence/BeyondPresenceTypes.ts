@@ -2,10 +2,21 @@
  * Type definitions for Beyond Presence API
  */
 
+import { IDataObject } from 'n8n-workflow';
+
+/**
+ * Custom tool the agent can call during a call, answered by the workflow
+ */
+export interface AgentTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
 /**
  * Represents a message in a conversation
  */
-export interface WebhookMessage {
+export interface WebhookMessage extends IDataObject {
   sender: string;
   message: string;
   sent_at: string;
@@ -14,7 +25,7 @@ export interface WebhookMessage {
 /**
  * Call data containing user and agent information
  */
-export interface CallData {
+export interface CallData extends IDataObject {
   userName?: string; 
   agentId?: string; 
   startedAt?: string;
@@ -25,7 +36,7 @@ export interface CallData {
 /**
  * Message event webhook data
  */
-export interface MessageEvent {
+export interface MessageEvent extends IDataObject {
   event_type: "message";
   call_id: string;
   message: WebhookMessage;
@@ -35,7 +46,7 @@ export interface MessageEvent {
 /**
  * Call ended event webhook data
  */
-export interface CallEndedEvent {
+export interface CallEndedEvent extends IDataObject {
   event_type: "call_ended";
   call_id: string;
   evaluation: {
@@ -51,6 +62,18 @@ export interface CallEndedEvent {
   sentiment_disclaimer?: string;
 }
 
+/**
+ * Tool call event webhook data, sent when the agent calls a custom tool during a call
+ */
+export interface ToolCallEvent {
+  event_type: "tool_call";
+  call_id: string;
+  tool_call_id: string;
+  tool_name: string;
+  arguments?: Record<string, unknown> | string;
+  call_data?: CallData;
+}
+
 /**
  * Base interface for all webhook events
  */
@@ -70,12 +93,15 @@ export interface BaseWebhookData {
   messages?: WebhookMessage[];
   user_name?: string;
   sentiment_disclaimer?: string;
+  tool_call_id?: string;
+  tool_name?: string;
+  arguments?: Record<string, unknown> | string;
 }
 
 /**
  * Union type of all event types
  */
-export type WebhookData = MessageEvent | CallEndedEvent | BaseWebhookData;
+export type WebhookData = MessageEvent | CallEndedEvent | ToolCallEvent | BaseWebhookData;
 
 /**
  * Processed message from a call
@@ -112,4 +138,192 @@ export interface CallSummary {
  */
 export interface UserInfo {
   name: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Call as returned by the calls API
+ */
+export interface ApiCall extends IDataObject {
+  id: string;
+  agent_id?: string;
+  user_name?: string;
+  started_at?: string;
+  ended_at?: string | null;
+  evaluation?: {
+    topic?: string;
+    user_sentiment?: string;
+    duration_minutes?: number | string;
+    messages_count?: number | string;
+  };
+}
+
+/**
+ * Talk statistics of one speaker in a call
+ */
+export interface SpeakerStats extends IDataObject {
+  messages: number;
+  turns: number;
+  words: number;
+}
+
+/**
+ * Conversation analytics computed from the messages of a call
+ */
+export interface CallAnalytics extends IDataObject {
+  agent: SpeakerStats;
+  user: SpeakerStats;
+  agent_talk_ratio: number | null;
+  avg_agent_response_latency_seconds: number | null;
+  max_agent_response_latency_seconds: number | null;
+  longest_silence_seconds: number | null;
+  first_speaker: string;
+  last_speaker: string;
+}
+
+/**
+ * Message events buffered for a call that has not ended yet
+ */
+export interface BufferedSession {
+  call_id: string;
+  agent_id: string;
+  user_name: string;
+  messages: WebhookMessage[];
+  last_activity: number;
+  validation_warnings?: string[];
+}
+
+/**
+ * Buffered sessions kept in the workflow static data, keyed by call ID
+ */
+export interface SessionStore {
+  sessions?: Record<string, BufferedSession>;
+  endedCalls?: Record<string, number>;
+}
+
+/**
+ * Fingerprints of handled events kept in the workflow static data, mapped to when they were first seen
+ */
+export interface DeduplicationStore {
+  fingerprints?: Record<string, number>;
+}
+
+/**
+ * Agents created by Agent Upsert kept in the workflow static data, mapping external keys to agent IDs
+ */
+export interface AgentKeyStore {
+  agentsByKey?: Record<string, string>;
+}
+
+/**
+ * Agent created as ephemeral, deleted by Agent Delete Expired
+ */
+export interface EphemeralAgent {
+  expires_at: number;
+  delete_after_call: boolean;
+}
+
+/**
+ * Ephemeral agents kept in the global workflow static data, keyed by agent ID
+ */
+export interface EphemeralAgentStore {
+  ephemeralAgents?: Record<string, EphemeralAgent>;
+}
+
+/**
+ * Type of a webhook payload field
+ */
+export type FieldType = 'string' | 'number' | 'object' | 'array';
+
+/**
+ * Runtime schema of a webhook payload field, a list of types accepts any of them and numeric fields only accept strings holding a number
+ */
+export interface FieldSchema {
+  type: FieldType | FieldType[];
+  numeric?: boolean;
+  required?: boolean;
+  properties?: Record<string, FieldSchema>;
+  items?: FieldSchema;
+}
+
+/**
+ * Runtime schema of a WebhookMessage
+ */
+const webhookMessageSchema: FieldSchema = {
+  type: 'object',
+  required: true,
+  properties: {
+    sender: { type: 'string', required: true },
+    message: { type: 'string', required: true },
+    sent_at: { type: 'string', required: true },
+  },
+};
+
+/**
+ * Runtime schema of CallData
+ */
+const callDataSchema: FieldSchema = {
+  type: 'object',
+  properties: {
+    userName: { type: 'string' },
+    agentId: { type: 'string' },
+    startedAt: { type: 'string' },
+    endedAt: { type: 'string' },
+    leftAt: { type: 'string' },
+  },
+};
+
+/**
+ * Runtime schemas of the webhook events, keyed by event type
+ */
+export const webhookEventSchemas: Record<string, FieldSchema> = {
+  message: {
+    type: 'object',
+    properties: {
+      event_type: { type: 'string', required: true },
+      call_id: { type: 'string', required: true },
+      message: webhookMessageSchema,
+      call_data: { ...callDataSchema, required: true },
+    },
+  },
+  call_ended: {
+    type: 'object',
+    properties: {
+      event_type: { type: 'string', required: true },
+      call_id: { type: 'string', required: true },
+      evaluation: {
+        type: 'object',
+        required: true,
+        properties: {
+          topic: { type: 'string' },
+          user_sentiment: { type: 'string' },
+          duration_minutes: { type: ['number', 'string'], numeric: true, required: true },
+          messages_count: { type: ['number', 'string'], numeric: true },
+        },
+      },
+      messages: { type: 'array', required: true, items: webhookMessageSchema },
+      user_name: { type: 'string' },
+      agentId: { type: 'string' },
+      call_data: callDataSchema,
+      sentiment_disclaimer: { type: 'string' },
+    },
+  },
+  tool_call: {
+    type: 'object',
+    properties: {
+      event_type: { type: 'string', required: true },
+      call_id: { type: 'string', required: true },
+      tool_call_id: { type: 'string', required: true },
+      tool_name: { type: 'string', required: true },
+      call_data: callDataSchema,
+    },
+  },
+};
+
+/**
+ * Rule matched against processed webhook data
+ */
+export interface FilterRule {
+  field: string;
+  operator: string;
+  value: string;
+}